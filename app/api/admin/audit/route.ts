@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import { auditIndex } from "@/lib/audit";
+import { syncIndex } from "@/lib/indexer/sync";
+import { getLineaProvider } from "@/lib/rpc";
+
+// ----------------------------------------
+// GET /api/admin/audit
+//   ?wallets=0x…,0x…   only check these wallets (default: all indexed)
+// Cross-checks the index against on-chain counters; 200 either way,
+// `ok: false` when anything disagrees
+// ----------------------------------------
+export async function GET(request: Request) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const walletsParam = searchParams.get("wallets");
+  const wallets = walletsParam
+    ? walletsParam
+        .split(",")
+        .map((w) => w.trim())
+        .filter(Boolean)
+    : undefined;
+
+  if (wallets?.some((w) => !ethers.utils.isAddress(w))) {
+    return NextResponse.json(
+      { error: "Invalid wallet address in wallets" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const state = await syncIndex();
+    const report = await auditIndex(getLineaProvider(), state, { wallets });
+
+    return NextResponse.json(report, {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    console.error("GET /api/admin/audit failed:", err);
+    return NextResponse.json({ error: "Audit failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import { parseProgramSchedule, programStatus } from "@/lib/schedule";
+import { saveProgramSchedule } from "@/lib/scheduleFile";
+
+// ----------------------------------------
+// PUT /api/admin/schedule
+// Body: { startsAt, buysCloseAt, claimsOpenAt, claimsCloseAt }, each unix
+// seconds, an ISO 8601 date or null. Replaces the published schedule.
+// ----------------------------------------
+export async function PUT(request: Request) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  let schedule;
+  try {
+    schedule = parseProgramSchedule(await request.json());
+  } catch (err) {
+    return NextResponse.json(
+      { error: (err as Error).message || "Invalid schedule" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveProgramSchedule(schedule);
+    const now = Math.floor(Date.now() / 1000);
+
+    return NextResponse.json(
+      { schedule, now, ...programStatus(schedule, now) },
+      { status: 200, headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (err) {
+    console.error("PUT /api/admin/schedule failed:", err);
+    return NextResponse.json(
+      { error: "Failed to save program schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import { syncIndex } from "@/lib/indexer/sync";
+import { getLineaProvider } from "@/lib/rpc";
+import { checkSolvency } from "@/lib/solvency";
+
+// ----------------------------------------
+// GET /api/admin/solvency
+//   ?minRunwayDays=7   warning threshold (default SOLVENCY_MIN_RUNWAY_DAYS)
+// Outstanding claimable TBAG vs the contract's balance; 200 either way,
+// `status` / `warning` say whether it needs a top-up
+// ----------------------------------------
+export async function GET(request: Request) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const minRunwayParam = searchParams.get("minRunwayDays");
+
+  // Present but empty is an error, not 0 (which would disable the warning)
+  if (minRunwayParam !== null && !/^\d+(\.\d+)?$/.test(minRunwayParam)) {
+    return NextResponse.json(
+      { error: "Invalid minRunwayDays" },
+      { status: 400 }
+    );
+  }
+  const minRunwayDays =
+    minRunwayParam !== null ? Number(minRunwayParam) : undefined;
+
+  try {
+    const state = await syncIndex();
+    const report = await checkSolvency(getLineaProvider(), state, {
+      minRunwayDays,
+    });
+
+    if (report.warning) {
+      console.warn(`Solvency ${report.status}: ${report.warning}`);
+    }
+
+    return NextResponse.json(report, {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    console.error("GET /api/admin/solvency failed:", err);
+    return NextResponse.json(
+      { error: "Solvency check failed" },
+      { status: 500 }
+    );
+  }
+}
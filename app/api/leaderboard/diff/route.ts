@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { parseWalletTotalsCsv, type WalletTotals } from "@/lib/exportFormats";
+import { syncIndex } from "@/lib/indexer/sync";
+import { snapshotRows } from "@/lib/snapshot";
+import { diffSnapshots, type SnapshotDiff } from "@/lib/snapshotDiff";
+
+// ----------------------------------------
+// Config
+// ----------------------------------------
+
+// Max changed-wallet rows per response
+const DIFF_MAX_WALLETS = 500;
+const DIFF_DEFAULT_WALLETS = 100;
+
+// Max size of each CSV in a POST body
+const DIFF_MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+function parseLimit(value: string | null): number | null {
+  if (value === null || value === "") return DIFF_DEFAULT_WALLETS;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1 || n > DIFF_MAX_WALLETS) return null;
+  return n;
+}
+
+// Missing or empty = invalid, not block 0
+function parseBlock(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+function diffResponse(diff: SnapshotDiff, limit: number, extra: object) {
+  return NextResponse.json(
+    {
+      ...extra,
+      totals: diff.totals,
+      changedWallets: diff.wallets.length,
+      wallets: diff.wallets.slice(0, limit),
+    },
+    {
+      status: 200,
+      headers: {
+        "Cache-Control": "max-age=15, stale-while-revalidate=30",
+      },
+    }
+  );
+}
+
+// ----------------------------------------
+// GET /api/leaderboard/diff?from=<block>&to=<block>[&limit=100]
+// Standings at two indexed block heights
+// ----------------------------------------
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const from = parseBlock(searchParams.get("from"));
+  const to = parseBlock(searchParams.get("to"));
+  const limit = parseLimit(searchParams.get("limit"));
+
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: "from and to must be block numbers" },
+      { status: 400 }
+    );
+  }
+  if (limit === null) {
+    return NextResponse.json(
+      { error: `Invalid limit (1–${DIFF_MAX_WALLETS})` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const state = await syncIndex();
+    const latest = Math.max(from, to);
+    if (latest > state.lastIndexedBlock) {
+      return NextResponse.json(
+        {
+          error: `Block ${latest} is not indexed yet (last indexed ${state.lastIndexedBlock})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const diff = diffSnapshots(
+      snapshotRows(state, state.fromBlock, from),
+      snapshotRows(state, state.fromBlock, to)
+    );
+    return diffResponse(diff, limit, { from, to });
+  } catch (err) {
+    console.error("GET /api/leaderboard/diff failed:", err);
+    return NextResponse.json({ error: "Failed to diff snapshots" }, { status: 500 });
+  }
+}
+
+// ----------------------------------------
+// POST /api/leaderboard/diff[?limit=100]
+// Body: { "before": "<csv>", "after": "<csv>" } with CSVs from the CLI
+// `export` / `snapshot` commands (or the old export script)
+// ----------------------------------------
+export async function POST(request: Request) {
+  const limit = parseLimit(new URL(request.url).searchParams.get("limit"));
+  if (limit === null) {
+    return NextResponse.json(
+      { error: `Invalid limit (1–${DIFF_MAX_WALLETS})` },
+      { status: 400 }
+    );
+  }
+
+  let body: { before?: unknown; after?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const { before, after } = body ?? {};
+  if (typeof before !== "string" || typeof after !== "string") {
+    return NextResponse.json(
+      { error: "before and after must be CSV strings" },
+      { status: 400 }
+    );
+  }
+  if (before.length > DIFF_MAX_CSV_BYTES || after.length > DIFF_MAX_CSV_BYTES) {
+    return NextResponse.json({ error: "CSV too large" }, { status: 413 });
+  }
+
+  let beforeRows: WalletTotals[];
+  let afterRows: WalletTotals[];
+  try {
+    beforeRows = parseWalletTotalsCsv(before);
+    afterRows = parseWalletTotalsCsv(after);
+  } catch (err) {
+    return NextResponse.json(
+      { error: `Invalid CSV: ${(err as Error).message}` },
+      { status: 400 }
+    );
+  }
+
+  return diffResponse(diffSnapshots(beforeRows, afterRows), limit, {});
+}
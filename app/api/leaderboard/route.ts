@@ -1,187 +1,191 @@
 import { NextResponse } from "next/server";
 import { ethers } from "ethers";
-
-type LeaderboardRow = {
-  wallet: string;
-  totalBuys: number;
-};
+import {
+  LEADERBOARD_SORTS,
+  lookupWalletRank,
+  paginateLeaderboard,
+  parseLeaderboardSort,
+  rankLeaderboard,
+  searchLeaderboard,
+  type LeaderboardLookupResponse,
+  type LeaderboardPageResponse,
+  type LeaderboardSort,
+} from "@/lib/leaderboard";
+import {
+  getCachedStats,
+  loadIndexedStats,
+  windowedRows,
+  type IndexedStats,
+} from "@/lib/stats";
+import { parseWindowSpec, type WindowSpec } from "@/lib/windows";
 
 // ----------------------------------------
 // Config
 // ----------------------------------------
 
-// Same address as front-end
-const TBAG_DAILY_BUYS_ADDRESS =
-  process.env.NEXT_PUBLIC_TBAG_DAILY_BUYS_ADDRESS ??
-  "0xcA2538De53E21128B298a80d92f67b33605FEECC";
-
-// Linea RPC
-const LINEA_RPC_URL =
-  process.env.LINEA_RPC_URL ?? "https://rpc.linea.build";
-
-// Starting block to avoid scanning from genesis
-const LEADERBOARD_FROM_BLOCK = Number(
-  process.env.LEADERBOARD_FROM_BLOCK ?? 26505044
-);
-
-// Optional max rows (front-end also slices)
+// Max rows per page, and the page size when ?limit= is not given (so
+// callers without ?limit= still get the whole board, as before paging)
 const LEADERBOARD_MAX_ENTRIES = Number(
   process.env.LEADERBOARD_MAX_ENTRIES ?? 500
 );
 
-// Buy event signature: event Buy(address indexed user, uint64 userTotalBuys, uint32 buysInCurrentWindow);
-const BUY_TOPIC = ethers.utils.id("Buy(address,uint64,uint32)");
-
-// ----------------------------------------
-// Simple in-memory cache (per serverless instance)
-// ----------------------------------------
-let cachedRows: LeaderboardRow[] | null = null;
-let cachedAt = 0;
-const CACHE_TTL_MS = 30_000; // 30 seconds
+// Max rows either side of a looked-up wallet
+const LEADERBOARD_MAX_NEIGHBOURS = 50;
+
+type LeaderboardQuery = {
+  sort: LeaderboardSort;
+  offset: number;
+  limit: number;
+  search: string;
+  wallet: string | null;
+  neighbours: number;
+  window: WindowSpec;
+};
 
 // ----------------------------------------
-// Helper: recursively fetch logs, splitting when RPC says >10000 results
+// Query parsing: returns an error message for bad input
 // ----------------------------------------
-async function fetchLogsRecursive(
-  provider: any,
-  fromBlock: number,
-  toBlock: number
-): Promise<any[]> {
-  if (fromBlock > toBlock) return [];
-
-  try {
-    const logs = await provider.getLogs({
-      address: TBAG_DAILY_BUYS_ADDRESS,
-      fromBlock,
-      toBlock,
-      topics: [BUY_TOPIC],
-    });
-    return logs;
-  } catch (err: any) {
-    const code = err?.code ?? err?.error?.code;
-    // Linea RPC: -32005 "query returned more than 10000 results"
-    if (code === -32005 && fromBlock < toBlock) {
-      const mid = Math.floor((fromBlock + toBlock) / 2);
-      console.warn(
-        `getLogs too large, splitting range ${fromBlock}–${toBlock} into ${fromBlock}–${mid} and ${
-          mid + 1
-        }–${toBlock}`
-      );
-
-      const [left, right] = await Promise.all([
-        fetchLogsRecursive(provider, fromBlock, mid),
-        fetchLogsRecursive(provider, mid + 1, toBlock),
-      ]);
-
-      return [...left, ...right];
-    }
-
-    console.error(
-      `getLogs failed for range ${fromBlock}–${toBlock}:`,
-      err?.message || err
-    );
-    throw err;
-  }
+function parseIntParam(
+  value: string | null,
+  fallback: number,
+  min: number,
+  max: number
+): number | null {
+  if (value === null || value === "") return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) return null;
+  return n;
 }
 
-// ----------------------------------------
-// Core: read all Buy logs and build leaderboard
-// ----------------------------------------
-async function fetchLeaderboardFromChain(): Promise<LeaderboardRow[]> {
-  const provider = new ethers.providers.JsonRpcProvider(LINEA_RPC_URL);
-  const latestBlock = await provider.getBlockNumber();
+function parseQuery(
+  searchParams: URLSearchParams
+): LeaderboardQuery | { error: string } {
+  const sort = parseLeaderboardSort(searchParams.get("sort"));
+  if (!sort) {
+    return {
+      error: `Invalid sort. Use one of: ${LEADERBOARD_SORTS.join(", ")}`,
+    };
+  }
 
-  console.log(
-    `Building leaderboard from chain ${TBAG_DAILY_BUYS_ADDRESS}, blocks ${LEADERBOARD_FROM_BLOCK}–${latestBlock}`
+  const offset = parseIntParam(
+    searchParams.get("offset"),
+    0,
+    0,
+    Number.MAX_SAFE_INTEGER
   );
+  if (offset === null) return { error: "Invalid offset" };
 
-  const logs = await fetchLogsRecursive(
-    provider,
-    LEADERBOARD_FROM_BLOCK,
-    latestBlock
+  const limit = parseIntParam(
+    searchParams.get("limit"),
+    LEADERBOARD_MAX_ENTRIES,
+    1,
+    LEADERBOARD_MAX_ENTRIES
   );
+  if (limit === null) {
+    return { error: `Invalid limit (1–${LEADERBOARD_MAX_ENTRIES})` };
+  }
 
-  const counts = new Map<string, number>();
-
-  for (const log of logs) {
-    if (!log.topics || log.topics.length < 2) continue;
+  const neighbours = parseIntParam(
+    searchParams.get("neighbours"),
+    5,
+    0,
+    LEADERBOARD_MAX_NEIGHBOURS
+  );
+  if (neighbours === null) {
+    return { error: `Invalid neighbours (0–${LEADERBOARD_MAX_NEIGHBOURS})` };
+  }
 
-    const topic = log.topics[1];
-    if (!topic || typeof topic !== "string" || topic.length !== 66) continue;
+  const search = (searchParams.get("search") ?? "").trim();
+  if (search && !/^(0x)?[0-9a-f]{0,40}$/i.test(search)) {
+    return { error: "Invalid search (expected an address prefix)" };
+  }
 
-    try {
-      const addr = ethers.utils.getAddress("0x" + topic.slice(26));
-      counts.set(addr, (counts.get(addr) ?? 0) + 1);
-    } catch {
-      // ignore bad addresses
-    }
+  const wallet = searchParams.get("wallet");
+  if (wallet !== null && !ethers.utils.isAddress(wallet)) {
+    return { error: "Invalid wallet address" };
   }
 
-  const rows: LeaderboardRow[] = Array.from(counts.entries())
-    .map(([wallet, totalBuys]) => ({
-      wallet,
-      totalBuys,
-    }))
-    .sort((a, b) => b.totalBuys - a.totalBuys)
-    .slice(0, LEADERBOARD_MAX_ENTRIES);
+  const window = parseWindowSpec(searchParams);
+  if ("error" in window) return { error: window.error };
 
-  console.log(
-    `Leaderboard built with ${rows.length} wallets (from ${counts.size} unique addresses)`
-  );
+  return { sort, offset, limit, search, wallet, neighbours, window };
+}
 
-  return rows;
+async function leaderboardResponse(
+  stats: IndexedStats,
+  query: LeaderboardQuery,
+  error?: string
+): Promise<NextResponse> {
+  const { rows, window } = await windowedRows(stats, query.window);
+  const ranked = rankLeaderboard(rows, query.sort);
+
+  // ?wallet= → exact rank + neighbours, otherwise a page of (searched) rows
+  const body: LeaderboardLookupResponse | LeaderboardPageResponse =
+    query.wallet
+      ? {
+          sort: query.sort,
+          window,
+          total: ranked.length,
+          lookup: lookupWalletRank(ranked, query.wallet, query.neighbours),
+        }
+      : {
+          sort: query.sort,
+          window,
+          search: query.search || undefined,
+          ...paginateLeaderboard(
+            searchLeaderboard(ranked, query.search),
+            query.offset,
+            query.limit
+          ),
+        };
+
+  return NextResponse.json(
+    { ...(error ? { error } : {}), ...body },
+    {
+      status: 200,
+      headers: {
+        "Cache-Control": "max-age=15, stale-while-revalidate=30",
+      },
+    }
+  );
 }
 
 // ----------------------------------------
 // GET /api/leaderboard
+//   ?sort=buys|claimed|unclaimed
+//   ?offset=&limit=     page through ranked rows
+//   ?search=0xab        address-prefix filter (ranks stay global)
+//   ?wallet=0x…&neighbours=5   exact rank of any wallet + rows around it
+//   ?window=all|today|week     named window (UTC day / Monday-based week)
+//   ?from=&to=[&by=time|block] custom inclusive range; times are unix
+//                              seconds or ISO dates, resolved to blocks
 // ----------------------------------------
-export async function GET() {
-  try {
-    const now = Date.now();
-
-    // Serve from cache if still fresh
-    if (cachedRows && now - cachedAt < CACHE_TTL_MS) {
-      return NextResponse.json(
-        { rows: cachedRows },
-        {
-          status: 200,
-          headers: {
-            "Cache-Control": "max-age=15, stale-while-revalidate=30",
-          },
-        }
-      );
-    }
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = parseQuery(searchParams);
 
-    const rows = await fetchLeaderboardFromChain();
-    cachedRows = rows;
-    cachedAt = Date.now();
+  if ("error" in query) {
+    return NextResponse.json({ error: query.error, rows: [] }, { status: 400 });
+  }
 
-    return NextResponse.json(
-      { rows },
-      {
-        status: 200,
-        headers: {
-          "Cache-Control": "max-age=15, stale-while-revalidate=30",
-        },
-      }
-    );
+  try {
+    const stats = await loadIndexedStats();
+    return await leaderboardResponse(stats, query);
   } catch (err) {
     console.error("GET /api/leaderboard failed:", err);
 
     // If we have an old cache, serve that with 200 so the UI still works
-    if (cachedRows && cachedRows.length > 0) {
-      return NextResponse.json(
-        {
-          error: "Failed to refresh leaderboard, serving cached data.",
-          rows: cachedRows,
-        },
-        {
-          status: 200,
-          headers: {
-            "Cache-Control": "max-age=15, stale-while-revalidate=30",
-          },
-        }
-      );
+    const cached = getCachedStats();
+    if (cached && cached.rows.length > 0) {
+      try {
+        return await leaderboardResponse(
+          cached,
+          query,
+          "Failed to refresh leaderboard, serving cached data."
+        );
+      } catch (cacheErr) {
+        console.error("Serving cached leaderboard failed:", cacheErr);
+      }
     }
 
     // No cache yet – real failure
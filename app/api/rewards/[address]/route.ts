@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { TBAG_DECIMALS } from "@/lib/contracts/tbagDailyFreeBuys";
+import { loadRewardsDistribution } from "@/lib/rewards/distribution";
+
+// ----------------------------------------
+// GET /api/rewards/[address]
+// Leaderboard bonus for one wallet: amount + Merkle proof for the
+// distributor's claim(index, account, amount, proof)
+// ----------------------------------------
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  if (!ethers.utils.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+
+  try {
+    const distribution = await loadRewardsDistribution();
+    if (!distribution) {
+      return NextResponse.json(
+        { error: "No rewards have been published yet" },
+        { status: 404 }
+      );
+    }
+
+    const wallet = ethers.utils.getAddress(address);
+    const claim = distribution.claims[wallet];
+    const amount = ethers.BigNumber.from(claim?.amount ?? 0);
+
+    return NextResponse.json(
+      {
+        wallet,
+        merkleRoot: distribution.merkleRoot,
+        eligible: Boolean(claim),
+        index: claim?.index ?? null,
+        amount: amount.toString(),
+        amountFormatted: ethers.utils.formatUnits(amount, TBAG_DECIMALS),
+        proof: claim?.proof ?? [],
+      },
+      {
+        status: 200,
+        headers: {
+          "Cache-Control": "max-age=60, stale-while-revalidate=300",
+        },
+      }
+    );
+  } catch (err) {
+    console.error(`GET /api/rewards/${address} failed:`, err);
+    return NextResponse.json(
+      { error: "Failed to load rewards" },
+      { status: 500 }
+    );
+  }
+}
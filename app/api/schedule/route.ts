@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { programStatus } from "@/lib/schedule";
+import { loadProgramSchedule } from "@/lib/scheduleFile";
+
+// ----------------------------------------
+// GET /api/schedule
+// Program schedule + current phase. `now` lets the page correct for a
+// skewed local clock when it counts down, so the response is never cached.
+// ----------------------------------------
+export async function GET() {
+  try {
+    const schedule = await loadProgramSchedule();
+    const now = Math.floor(Date.now() / 1000);
+
+    return NextResponse.json(
+      { schedule, now, ...programStatus(schedule, now) },
+      {
+        status: 200,
+        headers: { "Cache-Control": "no-store" },
+      }
+    );
+  } catch (err) {
+    console.error("GET /api/schedule failed:", err);
+    return NextResponse.json(
+      { error: "Failed to load program schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { getLineaProvider } from "@/lib/rpc";
+import { loadIndexedStats } from "@/lib/stats";
+import { buildWalletProfile } from "@/lib/wallet";
+
+// ----------------------------------------
+// GET /api/wallet/[address]
+// Rank, totals and Buy/Claim timeline for one wallet
+// ----------------------------------------
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  if (!ethers.utils.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+
+  try {
+    const provider = getLineaProvider();
+    const stats = await loadIndexedStats();
+    const profile = await buildWalletProfile(provider, stats, address);
+
+    return NextResponse.json(profile, {
+      status: 200,
+      headers: {
+        "Cache-Control": "max-age=15, stale-while-revalidate=30",
+      },
+    });
+  } catch (err) {
+    console.error(`GET /api/wallet/${address} failed:`, err);
+    return NextResponse.json(
+      { error: "Failed to load wallet stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,63 +1,291 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, {
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import Head from "next/head";
+import Link from "next/link";
 import { ethers } from "ethers";
+import type {
+  LeaderboardLookupResponse,
+  LeaderboardPageResponse,
+  LeaderboardSort,
+  RankedLeaderboardRow,
+} from "@/lib/leaderboard";
+import {
+  TBAG_DAILY_BUYS_ADDRESS,
+  TBAG_DECIMALS,
+  previewClaimAll,
+  readStats,
+  readUserStats,
+  sendBuy,
+  sendClaimAll,
+  type TbagGlobalStats,
+  type TbagUserStats,
+} from "@/lib/contracts/tbagDailyFreeBuys";
+import {
+  decodeContractError,
+  errorMessageText,
+  isUserRejection,
+  type ContractErrorName,
+} from "@/lib/contracts/errors";
+import {
+  REWARDS_DISTRIBUTOR_ADDRESS,
+  readRewardClaimed,
+  sendRewardClaim,
+} from "@/lib/contracts/merkleDistributor";
+import {
+  discoverWallets,
+  loadPreferredWallet,
+  savePreferredWallet,
+  type DiscoveredWallet,
+} from "@/lib/eip6963";
+import { getLineaProvider } from "@/lib/rpc";
+import {
+  formatCountdown,
+  programStatus,
+  type ProgramPhase,
+  type ProgramSchedule,
+} from "@/lib/schedule";
+import {
+  clearSettledTransactions,
+  getServerTrackedTransactions,
+  getTrackedTransactions,
+  resumePendingTransactions,
+  subscribeTrackedTransactions,
+  trackTransaction,
+  type TrackedTx,
+  type TrackedTxKind,
+  type TrackedTxStatus,
+} from "@/lib/txTracker";
+import type { NamedWindow } from "@/lib/windows";
 
 // --------------------------------------------------
 // Config
 // --------------------------------------------------
 
-// 🔒 Global kill-switch for the app interactions
-const PROGRAM_ENDED = true;
-
-// Linea MAINNET TbagDailyFreeBuys contract
-const TBAG_DAILY_BUYS_ADDRESS =
-  process.env.NEXT_PUBLIC_TBAG_DAILY_BUYS_ADDRESS ??
-  "0xcA2538De53E21128B298a80d92f67b33605FEECC";
-
 // Linea mainnet
 const TARGET_CHAIN_ID_DEC = 59144;
 const TARGET_CHAIN_ID_HEX = "0xe708";
 const TARGET_NETWORK_LABEL = "Linea";
 
-// TBAG decimals (standard)
-const TBAG_DECIMALS = 18;
-
 // Linea PoH APIs
 const POH_API_BASE = "https://poh-api.linea.build/poh/v2";
 const POH_SIGNER_API_BASE = "https://poh-signer-api.linea.build/poh/v2";
 const POH_PORTAL_URL =
   "https://linea.build/hub/apps/sumsub-reusable-identity";
 
-// TbagDailyFreeBuys ABI (only what we use)
-const TBAG_DAILY_BUYS_ABI = [
-  "function tbagPerBuy() view returns (uint256)",
-  "function maxBuysPerDay() view returns (uint8)",
-  "function totalBuysGlobal() view returns (uint256)",
-  "function totalBuys(address user) view returns (uint64)",
-  "function claimableBuys(address user) view returns (uint256)",
-  "function claimableTokens(address user) view returns (uint256)",
-  "function remainingBuysToday(address user) view returns (uint256)",
-  "function buy(bytes pohSignature) payable",
-  "function claimAll() returns (uint256 buysClaimed, uint256 tokensPaid)",
+// Tx links in the recent-transactions panel
+const EXPLORER_TX_URL = "https://lineascan.build/tx/";
+
+// Rows fetched per leaderboard page (API caps this server-side)
+const LEADERBOARD_PAGE_SIZE = 50;
+
+// Leaderboard views (API `sort` param → column shown next to buys)
+const LEADERBOARD_VIEWS: {
+  sort: LeaderboardSort;
+  label: string;
+  subtitle: string;
+  column: string | null;
+}[] = [
+  {
+    sort: "buys",
+    label: "Buys",
+    subtitle: "Wallets ranked by total free buys",
+    column: null,
+  },
+  {
+    sort: "claimed",
+    label: "Claimed",
+    subtitle: "Wallets ranked by TBAG claimed",
+    column: "TBAG Claimed",
+  },
+  {
+    sort: "unclaimed",
+    label: "Unclaimed",
+    subtitle: "Wallets ranked by TBAG still to claim",
+    column: "TBAG Unclaimed",
+  },
+];
+
+// Leaderboard time windows (API `window` param, or from/to for custom)
+type LeaderboardWindow = NamedWindow | "custom";
+const LEADERBOARD_WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "today", label: "Today (UTC)" },
+  { value: "week", label: "This week (UTC)" },
+  { value: "custom", label: "Custom dates" },
 ];
 
-// (Optional) still keep this as a UX cap; API will also cap server-side
-const LEADERBOARD_MAX_ENTRIES = 500;
+// /api/rewards/[address] response (leaderboard bonus + Merkle proof)
+type RewardInfo = {
+  eligible: boolean;
+  index: number | null;
+  amount: string;
+  amountFormatted: string;
+  proof: string[];
+};
+
+// Phase tag next to the program countdown
+const PHASE_LABELS: Record<ProgramPhase, string> = {
+  upcoming: "Starting soon",
+  active: "Live",
+  claimsOnly: "Claims only",
+  closed: "Ended",
+};
 
-// Allow window.ethereum
-declare global {
-  interface Window {
-    ethereum?: any;
+const formatScheduleDate = (at: number) =>
+  new Date(at * 1000).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Recent-transactions panel
+const TX_KIND_LABELS: Record<TrackedTxKind, string> = {
+  buy: "Buy",
+  claim: "Claim",
+  reward: "Bonus claim",
+};
+
+const TX_STATUS_LABELS: Record<TrackedTxStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  replaced: "Replaced",
+  dropped: "Dropped",
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+// Error shown when a tracked tx settles as anything but confirmed
+const txFailureMessage = (tx: TrackedTx): string => {
+  const label = TX_KIND_LABELS[tx.kind];
+  switch (tx.status) {
+    case "failed":
+      return `${label} transaction reverted on-chain.`;
+    case "cancelled":
+      return `${label} transaction was cancelled in your wallet.`;
+    case "replaced":
+      return `${label} transaction was replaced by another transaction.`;
+    case "dropped":
+      return `${label} transaction was dropped by the network. Try again.`;
+    default:
+      return `${label} transaction did not confirm.`;
   }
-}
+};
+
+// Wallet-side failures that carry no revert data
+type WalletErrorName = "InsufficientGasFunds" | "PohVerificationFailed";
+
+// Contract reverts / wallet failures → message, shared by the buy, claim
+// and bonus-claim flows
+const CONTRACT_ERROR_MESSAGES: Record<
+  ContractErrorName | WalletErrorName,
+  string
+> = {
+  NotPohVerified: "This wallet is not PoH verified.",
+  NonZeroEthNotAllowed:
+    "This contract is gas-only; do not send ETH with the tx.",
+  DailyLimitReached: "Daily buy limit reached. Try again in the next 24h.",
+  NoBuysToClaim: "No buys to claim.",
+  TbagPerBuyNotSet: "tbagPerBuy is not configured on the contract.",
+  InsufficientRewardBalance:
+    "Contract does not have enough TBAG to pay this claim.",
+  TransferFailed: "TBAG transfer failed from contract. Check token balance.",
+  AlreadyClaimed: "This bonus has already been claimed.",
+  InvalidProof:
+    "The distributor rejected the proof. Refresh the page and try again.",
+  ClaimWindowFinished: "The bonus claim window has closed.",
+  InsufficientGasFunds: "Not enough ETH on Linea to pay for gas.",
+  PohVerificationFailed:
+    "PoH verification failed. Make sure you completed PoH with this wallet.",
+};
+
+// Matched on the lowercased error messages (and revert reason) when nothing
+// decoded to one of the contracts' errors
+const WALLET_ERROR_MATCHERS: [WalletErrorName, (text: string) => boolean][] = [
+  [
+    "InsufficientGasFunds",
+    (text) =>
+      text.includes("insufficient funds") ||
+      text.includes("insufficient balance"),
+  ],
+  [
+    "PohVerificationFailed",
+    (text) => text.includes("poh") && text.includes("verify"),
+  ],
+];
+
+// Message for a buy / claim / bonus claim that failed before it was mined
+const txErrorMessage = (kind: TrackedTxKind, err: unknown): string => {
+  const label = TX_KIND_LABELS[kind];
+  if (isUserRejection(err)) return `${label} transaction rejected in wallet.`;
+
+  const decoded = decodeContractError(err);
+  if (decoded?.kind === "custom") return CONTRACT_ERROR_MESSAGES[decoded.name];
+
+  const text = [
+    errorMessageText(err),
+    decoded?.kind === "reason" ? decoded.reason : "",
+  ]
+    .join(" ")
+    .toLowerCase();
+  const walletError = WALLET_ERROR_MATCHERS.find(([, matches]) =>
+    matches(text)
+  );
+  if (walletError) return CONTRACT_ERROR_MESSAGES[walletError[0]];
+
+  if (decoded?.kind === "reason") {
+    return `${label} transaction reverted: ${decoded.reason}`;
+  }
+  return `${label} transaction failed. Check console for details.`;
+};
+
+// Read-only view of an arbitrary address (address input / ?address=)
+type AddressLookup = {
+  address: string;
+  stats: TbagUserStats;
+  pohVerified: boolean | null;
+};
+
+// Linea PoH API answers "true" / "false"
+const fetchPohStatus = async (address: string): Promise<boolean> => {
+  const res = await fetch(`${POH_API_BASE}/${address}`);
+  if (!res.ok) throw new Error(`PoH HTTP ${res.status}`);
+  return (await res.text()).trim() === "true";
+};
+
+// Same per-user reads as the connected wallet gets
+const fetchAddressLookup = async (address: string): Promise<AddressLookup> => {
+  const [stats, pohVerified] = await Promise.all([
+    readUserStats(getLineaProvider(), address),
+    fetchPohStatus(address).catch((err) => {
+      console.error("PoH check failed:", err);
+      return null;
+    }),
+  ]);
+  return { address, stats, pohVerified };
+};
 
-type LeaderboardRow = {
-  wallet: string;
-  totalBuys: number;
+// Keep ?address= in sync with the lookup so the view can be shared
+const setAddressParam = (address: string | null) => {
+  const url = new URL(window.location.href);
+  if (address) {
+    url.searchParams.set("address", address);
+  } else {
+    url.searchParams.delete("address");
+  }
+  window.history.replaceState(null, "", url);
 };
 
+const formatTbagAmount = (formatted: string) =>
+  Number(formatted).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+
 export default function Home() {
   // --------------------------------------------------
   // Wallet / network
@@ -66,6 +294,19 @@ export default function Home() {
   const [chainId, setChainId] = useState<string | null>(null);
   const [autoConnectEnabled, setAutoConnectEnabled] = useState(true);
 
+  // EIP-6963 wallets in this browser, and the one we're connected through
+  const [wallets, setWallets] = useState<DiscoveredWallet[]>([]);
+  const [activeWallet, setActiveWallet] = useState<DiscoveredWallet | null>(
+    null
+  );
+  const [showWalletPicker, setShowWalletPicker] = useState(false);
+  const ethereum = activeWallet?.provider ?? null;
+
+  // Looked-up address (read-only); null = show the connected wallet
+  const [lookup, setLookup] = useState<AddressLookup | null>(null);
+  const [lookupInput, setLookupInput] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
   let numericChainId: number | null = null;
   if (chainId) {
     numericChainId = chainId.startsWith("0x")
@@ -93,7 +334,9 @@ export default function Home() {
   // --------------------------------------------------
   // UI state
   // --------------------------------------------------
-  const [activeTab, setActiveTab] = useState<"buy" | "claim">("buy");
+  const [activeTab, setActiveTab] = useState<"buy" | "claim" | "rewards">(
+    "buy"
+  );
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [isBuying, setIsBuying] = useState(false);
   const [isClaiming, setIsClaiming] = useState(false);
@@ -102,17 +345,75 @@ export default function Home() {
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [showWelcomeModal, setShowWelcomeModal] = useState(true);
 
-  // New: “Ended” modal
-  const [showEndedModal, setShowEndedModal] = useState(false);
+  // Shown when an action isn't open in the current program phase
+  const [showPhaseModal, setShowPhaseModal] = useState(false);
+
+  // Program schedule from /api/schedule; clockOffset = server - local time
+  const [schedule, setSchedule] = useState<ProgramSchedule | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const serverNow = now + clockOffset;
+  // null until the schedule has loaded
+  const program = schedule ? programStatus(schedule, serverNow) : null;
+  const nextChangeIn = program?.next
+    ? formatCountdown(program.next.at - serverNow)
+    : null;
+  // Claims can open later than the next change (e.g. after buys close)
+  const claimsOpenAt =
+    schedule?.claimsOpenAt != null && schedule.claimsOpenAt > serverNow
+      ? schedule.claimsOpenAt
+      : null;
 
   // PoH
   const [isPohVerified, setIsPohVerified] = useState<boolean | null>(null);
   const [isCheckingPoh, setIsCheckingPoh] = useState(false);
 
   // Leaderboard
-  const [leaderboardRows, setLeaderboardRows] = useState<LeaderboardRow[]>([]);
+  const [leaderboardRows, setLeaderboardRows] = useState<
+    RankedLeaderboardRow[]
+  >([]);
   const [isLoadingLeaderboard, setIsLoadingLeaderboard] = useState(false);
+  const [isLoadingMoreLeaderboard, setIsLoadingMoreLeaderboard] =
+    useState(false);
   const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
+  const [leaderboardSort, setLeaderboardSort] =
+    useState<LeaderboardSort>("buys");
+  const [leaderboardSearch, setLeaderboardSearch] = useState("");
+  const [leaderboardWindow, setLeaderboardWindow] =
+    useState<LeaderboardWindow>("all");
+  // yyyy-mm-dd (UTC days, inclusive) for the custom window
+  const [leaderboardFromDate, setLeaderboardFromDate] = useState("");
+  const [leaderboardToDate, setLeaderboardToDate] = useState("");
+  const [leaderboardTotal, setLeaderboardTotal] = useState(0);
+  const [leaderboardNextOffset, setLeaderboardNextOffset] = useState<
+    number | null
+  >(null);
+  // Exact rank of the connected wallet (works outside the loaded pages)
+  const [yourRank, setYourRank] = useState<number | null>(null);
+  // In-flight leaderboard page / rank requests; a newer one aborts these so
+  // a slow response for an old sort or search can't land last
+  const leaderboardRequest = useRef<AbortController | null>(null);
+  const rankRequest = useRef<AbortController | null>(null);
+
+  // --------------------------------------------------
+  // Leaderboard bonus (Rewards tab)
+  // --------------------------------------------------
+  const [rewardInfo, setRewardInfo] = useState<RewardInfo | null>(null);
+  // false = no allocation published yet (API 404)
+  const [rewardsPublished, setRewardsPublished] = useState<boolean | null>(
+    null
+  );
+  const [rewardClaimed, setRewardClaimed] = useState<boolean | null>(null);
+  const [isClaimingReward, setIsClaimingReward] = useState(false);
+
+  // --------------------------------------------------
+  // Recent transactions (persisted across reloads by lib/txTracker)
+  // --------------------------------------------------
+  const trackedTxs = useSyncExternalStore(
+    subscribeTrackedTransactions,
+    getTrackedTransactions,
+    getServerTrackedTransactions
+  );
 
   // --------------------------------------------------
   // Helpers: PoH status (UX only)
@@ -122,11 +423,7 @@ export default function Home() {
       setIsCheckingPoh(true);
       setIsPohVerified(null);
 
-      const res = await fetch(`${POH_API_BASE}/${address}`);
-      if (!res.ok) throw new Error(`PoH HTTP ${res.status}`);
-
-      const text = (await res.text()).trim(); // "true" or "false"
-      setIsPohVerified(text === "true");
+      setIsPohVerified(await fetchPohStatus(address));
     } catch (err) {
       console.error("PoH check failed:", err);
       setIsPohVerified(null);
@@ -139,49 +436,31 @@ export default function Home() {
   // --------------------------------------------------
   // Load contract data
   // --------------------------------------------------
+  const applyGlobalStats = (global: TbagGlobalStats) => {
+    setTbagPerBuy(global.tbagPerBuy);
+    setMaxBuysPerDay(global.maxBuysPerDay);
+    setTotalBuysGlobal(global.totalBuysGlobal);
+  };
+
+  // Reads go through the pooled Linea RPCs, not the wallet, so the global
+  // stats load without an extension; per-user stats need an address
   const loadContractData = async (address?: string | null) => {
     try {
       setIsLoadingData(true);
       setErrorMessage(null);
 
-      if (typeof window === "undefined" || !window.ethereum) return;
-
-      const provider = new ethers.providers.Web3Provider(window.ethereum);
-      const contract = new ethers.Contract(
-        TBAG_DAILY_BUYS_ADDRESS,
-        TBAG_DAILY_BUYS_ABI,
-        provider
-      );
+      const provider = getLineaProvider();
 
-      // Global
-      const [tbagPerBuyBn, maxBuysPerDayBn, totalBuysGlobalBn] =
-        await Promise.all([
-          contract.tbagPerBuy(),
-          contract.maxBuysPerDay(),
-          contract.totalBuysGlobal(),
-        ]);
+      // Global + user views in one Multicall3 eth_call
+      const { global, user } = await readStats(provider, address);
 
-      setTbagPerBuy(tbagPerBuyBn);
-      setMaxBuysPerDay(Number(maxBuysPerDayBn));
-      setTotalBuysGlobal(totalBuysGlobalBn.toNumber());
-
-      if (address) {
-        const [
-          yourTotalBuysBn,
-          remainingBuysTodayBn,
-          claimableBuysBn,
-          claimableTokensBn,
-        ] = await Promise.all([
-          contract.totalBuys(address),
-          contract.remainingBuysToday(address),
-          contract.claimableBuys(address),
-          contract.claimableTokens(address),
-        ]);
+      applyGlobalStats(global);
 
-        setYourTotalBuys(Number(yourTotalBuysBn));
-        setRemainingBuysToday(remainingBuysTodayBn.toNumber());
-        setClaimableBuys(claimableBuysBn.toNumber());
-        setClaimableTokens(claimableTokensBn);
+      if (user) {
+        setYourTotalBuys(user.totalBuys);
+        setRemainingBuysToday(user.remainingBuysToday);
+        setClaimableBuys(user.claimableBuys);
+        setClaimableTokens(user.claimableTokens);
       } else {
         setYourTotalBuys(0);
         setRemainingBuysToday(null);
@@ -200,70 +479,206 @@ export default function Home() {
 
   // --------------------------------------------------
   // Leaderboard: load from API (cached at edge)
+  // offset 0 replaces the table, later offsets append the next page
   // --------------------------------------------------
-  const loadLeaderboardFromApi = async () => {
+  const setLeaderboardWindowParams = (params: URLSearchParams) => {
+    if (leaderboardWindow !== "custom") {
+      params.set("window", leaderboardWindow);
+      return;
+    }
+    if (leaderboardFromDate) {
+      params.set("from", `${leaderboardFromDate}T00:00:00Z`);
+    }
+    if (leaderboardToDate) {
+      params.set("to", `${leaderboardToDate}T23:59:59Z`);
+    }
+  };
+
+  const loadLeaderboardFromApi = async (
+    sort: LeaderboardSort = leaderboardSort,
+    search: string = leaderboardSearch,
+    offset = 0
+  ) => {
+    const setLoading =
+      offset === 0 ? setIsLoadingLeaderboard : setIsLoadingMoreLeaderboard;
+
+    leaderboardRequest.current?.abort();
+    const controller = new AbortController();
+    leaderboardRequest.current = controller;
+
     try {
-      setIsLoadingLeaderboard(true);
+      // A fresh first page replaces whatever "load more" was in flight
+      if (offset === 0) setIsLoadingMoreLeaderboard(false);
+      setLoading(true);
       setLeaderboardError(null);
 
-      const res = await fetch("/api/leaderboard");
+      const params = new URLSearchParams({
+        sort,
+        offset: String(offset),
+        limit: String(LEADERBOARD_PAGE_SIZE),
+      });
+      if (search.trim()) params.set("search", search.trim());
+      setLeaderboardWindowParams(params);
+
+      const res = await fetch(`/api/leaderboard?${params}`, {
+        signal: controller.signal,
+      });
 
       if (!res.ok) {
         const text = await res.text();
         console.error("Leaderboard API error:", res.status, text);
         setLeaderboardError("Could not load leaderboard.");
-        setLeaderboardRows([]);
+        if (offset === 0) setLeaderboardRows([]);
         return;
       }
 
-      const data: { rows?: any[] } = await res.json();
+      const data: LeaderboardPageResponse = await res.json();
 
-      const rawRows: any[] = Array.isArray(data.rows) ? data.rows : [];
+      // Rows arrive already ranked by the requested sort
+      const rows = data.rows.filter((r) => r.wallet); // sanity
 
-      const rows: LeaderboardRow[] = rawRows
-        .map((r: any): LeaderboardRow => ({
-          wallet: String(r.wallet ?? "").trim(),
-          totalBuys: Number(r.totalBuys ?? 0),
-        }))
-        .filter((r: LeaderboardRow) => r.wallet) // sanity
-        .sort((a, b) => b.totalBuys - a.totalBuys)
-        .slice(0, LEADERBOARD_MAX_ENTRIES);
-
-      setLeaderboardRows(rows);
+      setLeaderboardRows((prev) => (offset === 0 ? rows : [...prev, ...rows]));
+      setLeaderboardTotal(data.total);
+      setLeaderboardNextOffset(data.nextOffset);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error("Error loading leaderboard:", err);
       setLeaderboardError("Could not load leaderboard.");
-      setLeaderboardRows([]);
+      if (offset === 0) setLeaderboardRows([]);
     } finally {
-      setIsLoadingLeaderboard(false);
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  };
+
+  const loadMoreLeaderboard = () => {
+    if (
+      leaderboardNextOffset === null ||
+      isLoadingLeaderboard ||
+      isLoadingMoreLeaderboard
+    ) {
+      return;
+    }
+    loadLeaderboardFromApi(
+      leaderboardSort,
+      leaderboardSearch,
+      leaderboardNextOffset
+    ).catch(console.error);
+  };
+
+  // Infinite scroll: fetch the next page near the bottom of the table
+  const handleLeaderboardScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (el.scrollTop + el.clientHeight >= el.scrollHeight - 24) {
+      loadMoreLeaderboard();
+    }
+  };
+
+  // Exact rank of any wallet via ?wallet= (not limited to loaded rows)
+  const loadYourRank = async (
+    address: string,
+    sort: LeaderboardSort = leaderboardSort
+  ) => {
+    rankRequest.current?.abort();
+    const controller = new AbortController();
+    rankRequest.current = controller;
+
+    try {
+      const params = new URLSearchParams({
+        sort,
+        wallet: address,
+        neighbours: "0",
+      });
+      setLeaderboardWindowParams(params);
+      const res = await fetch(`/api/leaderboard?${params}`, {
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        setYourRank(null);
+        return;
+      }
+
+      const data: LeaderboardLookupResponse = await res.json();
+      setYourRank(data.lookup.row?.rank ?? null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error loading rank:", err);
+      setYourRank(null);
+    }
+  };
+
+  // Bonus amount + proof, and whether the distributor already paid it
+  const loadRewardInfo = async (address: string) => {
+    try {
+      const res = await fetch(`/api/rewards/${address}`);
+      if (res.status === 404) {
+        setRewardsPublished(false);
+        setRewardInfo(null);
+        setRewardClaimed(null);
+        return;
+      }
+      if (!res.ok) throw new Error(`Rewards HTTP ${res.status}`);
+
+      const data: RewardInfo = await res.json();
+      setRewardsPublished(true);
+      setRewardInfo(data);
+
+      if (data.eligible && data.index !== null && REWARDS_DISTRIBUTOR_ADDRESS) {
+        setRewardClaimed(
+          await readRewardClaimed(getLineaProvider(), data.index)
+        );
+      } else {
+        setRewardClaimed(null);
+      }
+    } catch (err) {
+      console.error("Error loading rewards:", err);
+      setRewardInfo(null);
+      setRewardClaimed(null);
     }
   };
 
   // --------------------------------------------------
   // Connect / disconnect
   // --------------------------------------------------
-  const connectWallet = async () => {
+  // Without a wallet: the remembered one, the only one, or ask via the picker
+  const connectWallet = async (wallet?: DiscoveredWallet) => {
     try {
       setErrorMessage(null);
       setSuccessMessage(null);
 
-      if (typeof window === "undefined" || !window.ethereum) {
-        setErrorMessage("MetaMask not found. Please install it to continue.");
+      const chosen =
+        wallet ?? activeWallet ?? (wallets.length === 1 ? wallets[0] : null);
+      if (!chosen) {
+        if (wallets.length === 0) {
+          setErrorMessage(
+            "No browser wallet found. Please install one to continue."
+          );
+        } else {
+          setShowWalletPicker(true);
+        }
         return;
       }
+      setShowWalletPicker(false);
 
-      const accounts = await window.ethereum.request({
+      const accounts = (await chosen.provider.request({
         method: "eth_requestAccounts",
-      });
+      })) as string[];
 
       const selected = accounts[0];
+      setActiveWallet(chosen);
+      savePreferredWallet(chosen.info.rdns);
       setWalletAddress(selected);
 
-      const cid = await window.ethereum.request({ method: "eth_chainId" });
+      const cid = (await chosen.provider.request({
+        method: "eth_chainId",
+      })) as string;
       setChainId(cid);
       setAutoConnectEnabled(true);
 
-      await Promise.all([loadContractData(selected), checkPohStatus(selected)]);
+      await Promise.all([
+        loadContractData(selected),
+        checkPohStatus(selected),
+        loadRewardInfo(selected),
+      ]);
     } catch (err) {
       console.error("Error connecting wallet:", err);
       setErrorMessage("Failed to connect wallet.");
@@ -279,17 +694,54 @@ export default function Home() {
     setClaimableTokens(null);
     setIsPohVerified(null);
     setIsCheckingPoh(false);
+    setRewardInfo(null);
+    setRewardClaimed(null);
     setErrorMessage(null);
     setSuccessMessage(null);
     setAutoConnectEnabled(false);
+    setActiveWallet(null);
+    savePreferredWallet(null);
+  };
+
+  // --------------------------------------------------
+  // Address lookup (support / mods): read-only, never touches the wallet
+  // --------------------------------------------------
+  const lookUpAddress = async () => {
+    const input = lookupInput.trim();
+    if (!ethers.utils.isAddress(input)) {
+      setErrorMessage("Enter a valid wallet address (0x…).");
+      return;
+    }
+
+    try {
+      setErrorMessage(null);
+      setSuccessMessage(null);
+      setIsLookingUp(true);
+
+      const result = await fetchAddressLookup(ethers.utils.getAddress(input));
+      setLookup(result);
+      setLookupInput(result.address);
+      setAddressParam(result.address);
+    } catch (err) {
+      console.error("Address lookup failed:", err);
+      setErrorMessage("Could not load stats for that address.");
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const exitLookup = () => {
+    setLookup(null);
+    setLookupInput("");
+    setAddressParam(null);
   };
 
   // --------------------------------------------------
   // Switch network
   // --------------------------------------------------
   const switchToTargetNetwork = async () => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      setErrorMessage("MetaMask not found.");
+    if (!ethereum) {
+      setErrorMessage("Connect your wallet first.");
       return;
     }
 
@@ -297,12 +749,12 @@ export default function Home() {
       setErrorMessage(null);
       setSuccessMessage(null);
 
-      await window.ethereum.request({
+      await ethereum.request({
         method: "wallet_switchEthereumChain",
         params: [{ chainId: TARGET_CHAIN_ID_HEX }],
       });
 
-      const cid = await window.ethereum.request({ method: "eth_chainId" });
+      const cid = (await ethereum.request({ method: "eth_chainId" })) as string;
       setChainId(cid);
 
       if (walletAddress) {
@@ -318,7 +770,7 @@ export default function Home() {
 
       if (switchError?.code === 4902) {
         try {
-          await window.ethereum.request({
+          await ethereum.request({
             method: "wallet_addEthereumChain",
             params: [
               {
@@ -335,14 +787,14 @@ export default function Home() {
             ],
           });
 
-          await window.ethereum.request({
+          await ethereum.request({
             method: "wallet_switchEthereumChain",
             params: [{ chainId: TARGET_CHAIN_ID_HEX }],
           });
 
-          const cid = await window.ethereum.request({
+          const cid = (await ethereum.request({
             method: "eth_chainId",
-          });
+          })) as string;
           setChainId(cid);
 
           if (walletAddress) {
@@ -362,7 +814,7 @@ export default function Home() {
       } else if (switchError?.code === 4001) {
         setErrorMessage("Network switch was rejected in your wallet.");
       } else {
-        setErrorMessage("Failed to switch network in MetaMask.");
+        setErrorMessage("Failed to switch network in your wallet.");
       }
     }
   };
@@ -371,16 +823,12 @@ export default function Home() {
   // Buy flow
   // --------------------------------------------------
   const executeBuyTx = async () => {
-    // With PROGRAM_ENDED on, this should never be called
+    // Only reachable while the schedule allows buys
     try {
       setErrorMessage(null);
       setSuccessMessage(null);
 
-      if (typeof window === "undefined" || !window.ethereum) {
-        setErrorMessage("MetaMask not found.");
-        return;
-      }
-      if (!walletAddress) {
+      if (!ethereum || !walletAddress) {
         setErrorMessage("Connect your wallet first.");
         return;
       }
@@ -403,13 +851,8 @@ export default function Home() {
 
       setIsBuying(true);
 
-      const provider = new ethers.providers.Web3Provider(window.ethereum);
+      const provider = new ethers.providers.Web3Provider(ethereum);
       const signer = provider.getSigner();
-      const contract = new ethers.Contract(
-        TBAG_DAILY_BUYS_ADDRESS,
-        TBAG_DAILY_BUYS_ABI,
-        signer
-      );
 
       // Get PoH signature from Linea signer API
       const sigRes = await fetch(`${POH_SIGNER_API_BASE}/${walletAddress}`);
@@ -423,11 +866,13 @@ export default function Home() {
       const pohSignature = rawSig;
 
       // Gas-only buy (msg.value must be 0)
-      const tx = await contract.buy(pohSignature, {
-        value: 0,
-      });
+      const tx = await sendBuy(signer, pohSignature);
 
-      await tx.wait();
+      const result = await trackTransaction(tx, "buy");
+      if (result.status !== "confirmed") {
+        setErrorMessage(txFailureMessage(result));
+        return;
+      }
 
       setSuccessMessage("Buy recorded successfully!");
       setShowConfirmModal(false);
@@ -435,39 +880,23 @@ export default function Home() {
       await Promise.all([
         loadContractData(walletAddress),
         loadLeaderboardFromApi(), // refresh from API after new buy
+        loadYourRank(walletAddress),
       ]);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Buy error:", err);
-      const rawMsg =
-        err?.error?.message ||
-        err?.data?.message ||
-        err?.reason ||
-        err?.message ||
-        String(err ?? "");
-      const lower = rawMsg.toLowerCase();
-
-      if (err?.code === "ACTION_REJECTED" || lower.includes("user rejected")) {
-        setErrorMessage("Transaction rejected in wallet.");
-      } else if (lower.includes("notpohverified")) {
-        setErrorMessage("This wallet is not PoH verified.");
-      } else if (lower.includes("nonzeroethnotallowed")) {
-        setErrorMessage("This contract is gas-only; do not send ETH with the tx.");
-      } else if (lower.includes("dailylimitreached")) {
-        setErrorMessage("Daily buy limit reached. Try again in the next 24h.");
-      } else if (lower.includes("poh") && lower.includes("verify")) {
-        setErrorMessage(
-          "PoH verification failed. Make sure you completed PoH with this wallet."
-        );
-      } else if (lower.includes("signer http")) {
+      const message = err instanceof Error ? err.message : "";
+
+      // Thrown above while fetching the PoH signature
+      if (message.startsWith("PoH signer HTTP")) {
         setErrorMessage(
           "Could not fetch PoH signature from Linea. Please try again in a moment."
         );
-      } else if (lower.includes("invalid poh signature format")) {
+      } else if (message === "Invalid PoH signature format") {
         setErrorMessage(
           "Received invalid PoH signature format. Please try again."
         );
       } else {
-        setErrorMessage("Buy transaction failed. Check console for details.");
+        setErrorMessage(txErrorMessage("buy", err));
       }
     } finally {
       setIsBuying(false);
@@ -475,9 +904,9 @@ export default function Home() {
   };
 
   const handlePrimaryAction = async () => {
-    // 🔒 Short-circuit: program ended
-    if (PROGRAM_ENDED) {
-      setShowEndedModal(true);
+    // 🔒 Short-circuit: buys not open in this phase
+    if (!program?.canBuy) {
+      setShowPhaseModal(true);
       return;
     }
 
@@ -501,9 +930,9 @@ export default function Home() {
   // Claim flow (claimAll)
   // --------------------------------------------------
   const handleClaimAll = async () => {
-    // 🔒 Short-circuit: program ended
-    if (PROGRAM_ENDED) {
-      setShowEndedModal(true);
+    // 🔒 Short-circuit: claims not open in this phase
+    if (!program?.canClaim) {
+      setShowPhaseModal(true);
       return;
     }
 
@@ -511,11 +940,7 @@ export default function Home() {
       setErrorMessage(null);
       setSuccessMessage(null);
 
-      if (typeof window === "undefined" || !window.ethereum) {
-        setErrorMessage("MetaMask not found.");
-        return;
-      }
-      if (!walletAddress) {
+      if (!ethereum || !walletAddress) {
         setErrorMessage("Connect your wallet first.");
         return;
       }
@@ -531,13 +956,8 @@ export default function Home() {
 
       setIsClaiming(true);
 
-      const provider = new ethers.providers.Web3Provider(window.ethereum);
+      const provider = new ethers.providers.Web3Provider(ethereum);
       const signer = provider.getSigner();
-      const contract = new ethers.Contract(
-        TBAG_DAILY_BUYS_ADDRESS,
-        TBAG_DAILY_BUYS_ABI,
-        signer
-      );
 
       // Optional: preview output with callStatic
       let expectedBuys = claimableBuys;
@@ -546,15 +966,19 @@ export default function Home() {
         : undefined;
 
       try {
-        const [buysClaimed, tokensPaid] = await contract.callStatic.claimAll();
-        expectedBuys = buysClaimed.toNumber();
-        expectedTokens = tokensPaid.toString();
+        const preview = await previewClaimAll(signer);
+        expectedBuys = preview.buysClaimed;
+        expectedTokens = preview.tokensPaid.toString();
       } catch {
         // If callStatic fails (e.g. zero balance), we still try and let error bubble.
       }
 
-      const tx = await contract.claimAll();
-      await tx.wait();
+      const tx = await sendClaimAll(signer);
+      const result = await trackTransaction(tx, "claim");
+      if (result.status !== "confirmed") {
+        setErrorMessage(txFailureMessage(result));
+        return;
+      }
 
       const formattedTokens =
         expectedTokens && tbagPerBuy
@@ -568,46 +992,129 @@ export default function Home() {
       );
 
       await loadContractData(walletAddress);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Claim error:", err);
-      const rawMsg =
-        err?.error?.message ||
-        err?.data?.message ||
-        err?.reason ||
-        err?.message ||
-        String(err ?? "");
-      const lower = rawMsg.toLowerCase();
-
-      if (err?.code === "ACTION_REJECTED" || lower.includes("user rejected")) {
-        setErrorMessage("Claim transaction rejected in wallet.");
-      } else if (lower.includes("nobuystoclaim")) {
-        setErrorMessage("No buys to claim.");
-      } else if (lower.includes("tbagperbuynotset")) {
-        setErrorMessage("tbagPerBuy is not configured on the contract.");
-      } else if (
-        lower.includes("insufficientrewardbalance") ||
-        lower.includes("insufficient balance")
-      ) {
-        setErrorMessage(
-          "Contract does not have enough TBAG to pay this claim."
-        );
-      } else if (lower.includes("transferfailed")) {
-        setErrorMessage(
-          "TBAG transfer failed from contract. Check token balance."
-        );
-      } else {
-        setErrorMessage("Claim transaction failed. Check console for details.");
-      }
+      setErrorMessage(txErrorMessage("claim", err));
     } finally {
       setIsClaiming(false);
     }
   };
 
+  // --------------------------------------------------
+  // Rewards flow (leaderboard bonus via the Merkle distributor)
+  // --------------------------------------------------
+  const handleClaimReward = async () => {
+    try {
+      setErrorMessage(null);
+      setSuccessMessage(null);
+
+      if (!ethereum || !walletAddress) {
+        setErrorMessage("Connect your wallet first.");
+        return;
+      }
+      if (!isOnTargetNetwork) {
+        setErrorMessage(`Please switch your wallet to ${TARGET_NETWORK_LABEL}.`);
+        return;
+      }
+      if (!REWARDS_DISTRIBUTOR_ADDRESS) {
+        setErrorMessage("Bonus claims are not open yet.");
+        return;
+      }
+      if (!rewardInfo?.eligible || rewardInfo.index === null) {
+        setErrorMessage("This wallet has no leaderboard bonus.");
+        return;
+      }
+      if (rewardClaimed) {
+        setErrorMessage("This bonus has already been claimed.");
+        return;
+      }
+
+      setIsClaimingReward(true);
+
+      const provider = new ethers.providers.Web3Provider(ethereum);
+      const signer = provider.getSigner();
+
+      const tx = await sendRewardClaim(signer, {
+        index: rewardInfo.index,
+        account: ethers.utils.getAddress(walletAddress),
+        amount: rewardInfo.amount,
+        proof: rewardInfo.proof,
+      });
+      const result = await trackTransaction(tx, "reward");
+      if (result.status !== "confirmed") {
+        setErrorMessage(txFailureMessage(result));
+        return;
+      }
+
+      setRewardClaimed(true);
+      setSuccessMessage(
+        `Claimed ${formatTbagAmount(rewardInfo.amountFormatted)} TBAG bonus.`
+      );
+    } catch (err) {
+      console.error("Reward claim error:", err);
+      const decoded = decodeContractError(err);
+      if (decoded?.kind === "custom" && decoded.name === "AlreadyClaimed") {
+        setRewardClaimed(true);
+      }
+      setErrorMessage(txErrorMessage("reward", err));
+    } finally {
+      setIsClaimingReward(false);
+    }
+  };
+
+  // --------------------------------------------------
+  // Keep watching txs left pending by a previous page load
+  // --------------------------------------------------
+  useEffect(() => {
+    resumePendingTransactions();
+  }, []);
+
+  // --------------------------------------------------
+  // Read-only global stats for every visitor, wallet or not
+  // --------------------------------------------------
+  useEffect(() => {
+    readStats(getLineaProvider())
+      .then(({ global }) => applyGlobalStats(global))
+      .catch((err) => console.error("Error loading global stats:", err));
+  }, []);
+
+  // --------------------------------------------------
+  // ?address= deep link opens the read-only lookup view
+  // --------------------------------------------------
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get("address");
+    if (!param || !ethers.utils.isAddress(param)) return;
+
+    fetchAddressLookup(ethers.utils.getAddress(param))
+      .then((result) => {
+        setLookup(result);
+        setLookupInput(result.address);
+      })
+      .catch((err) => console.error("Address lookup failed:", err));
+  }, []);
+
+  // --------------------------------------------------
+  // EIP-6963 discovery; restores the remembered wallet (or the only
+  // one installed) once it announces itself
+  // --------------------------------------------------
+  useEffect(() => {
+    const preferred = loadPreferredWallet();
+    return discoverWallets((found) => {
+      setWallets(found);
+      setActiveWallet(
+        (current) =>
+          current ??
+          found.find((w) => w.info.rdns === preferred) ??
+          (preferred === null && found.length === 1 ? found[0] : null)
+      );
+    });
+  }, []);
+
   // --------------------------------------------------
   // Auto-connect + event listeners
   // --------------------------------------------------
   useEffect(() => {
-    if (typeof window === "undefined" || !window.ethereum) return;
+    if (!ethereum) return;
 
     const handleAccountsChanged = (accounts: string[]) => {
       if (accounts.length === 0) {
@@ -617,11 +1124,14 @@ export default function Home() {
         setClaimableBuys(null);
         setClaimableTokens(null);
         setIsPohVerified(null);
+        setRewardInfo(null);
+        setRewardClaimed(null);
       } else {
         const acc = accounts[0];
         setWalletAddress(acc);
         loadContractData(acc).catch(console.error);
         checkPohStatus(acc).catch(console.error);
+        loadRewardInfo(acc).catch(console.error);
       }
     };
 
@@ -634,41 +1144,102 @@ export default function Home() {
     };
 
     if (autoConnectEnabled) {
-      window.ethereum
+      ethereum
         .request({ method: "eth_accounts" })
-        .then((accounts: string[]) => {
+        .then((result) => {
+          const accounts = result as string[];
           if (accounts.length > 0) {
             const acc = accounts[0];
             setWalletAddress(acc);
             loadContractData(acc).catch(console.error);
             checkPohStatus(acc).catch(console.error);
+            loadRewardInfo(acc).catch(console.error);
           }
         })
         .catch(console.error);
     }
 
-    window.ethereum
+    ethereum
       .request({ method: "eth_chainId" })
-      .then((cid: string) => setChainId(cid))
+      .then((cid) => setChainId(cid as string))
       .catch(console.error);
 
-    window.ethereum.on("accountsChanged", handleAccountsChanged);
-    window.ethereum.on("chainChanged", handleChainChanged);
+    ethereum.on?.("accountsChanged", handleAccountsChanged);
+    ethereum.on?.("chainChanged", handleChainChanged);
 
     return () => {
-      if (!window.ethereum) return;
-      window.ethereum.removeListener("accountsChanged", handleAccountsChanged);
-      window.ethereum.removeListener("chainChanged", handleChainChanged);
+      ethereum.removeListener?.("accountsChanged", handleAccountsChanged);
+      ethereum.removeListener?.("chainChanged", handleChainChanged);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [walletAddress, autoConnectEnabled]);
+  }, [ethereum, walletAddress, autoConnectEnabled]);
 
   // --------------------------------------------------
-  // Initial leaderboard load
+  // Leaderboard load (initial + whenever the view or search changes;
+  // search is debounced while typing)
   // --------------------------------------------------
   useEffect(() => {
-    loadLeaderboardFromApi().catch(console.error);
+    const timer = setTimeout(() => {
+      loadLeaderboardFromApi(leaderboardSort, leaderboardSearch).catch(
+        console.error
+      );
+    }, 300);
+    return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    leaderboardSort,
+    leaderboardSearch,
+    leaderboardWindow,
+    leaderboardFromDate,
+    leaderboardToDate,
+  ]);
+
+  // --------------------------------------------------
+  // Connected wallet's rank for the selected view (debounced with the
+  // leaderboard load above)
+  // --------------------------------------------------
+  useEffect(() => {
+    if (!walletAddress) return;
+    const timer = setTimeout(() => {
+      loadYourRank(walletAddress, leaderboardSort).catch(console.error);
+    }, 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    walletAddress,
+    leaderboardSort,
+    leaderboardWindow,
+    leaderboardFromDate,
+    leaderboardToDate,
+  ]);
+
+  // --------------------------------------------------
+  // Program schedule: refetched every minute so phase changes apply
+  // without a reload; the clock ticks every second for countdowns
+  // --------------------------------------------------
+  useEffect(() => {
+    const loadSchedule = () =>
+      fetch("/api/schedule", { cache: "no-store" })
+        .then((res) => {
+          if (!res.ok) throw new Error(`Schedule HTTP ${res.status}`);
+          return res.json();
+        })
+        .then((data: { schedule: ProgramSchedule; now: number }) => {
+          setSchedule(data.schedule);
+          setClockOffset(data.now - Math.floor(Date.now() / 1000));
+        })
+        .catch((err) => console.error("Error loading schedule:", err));
+
+    loadSchedule();
+    const refresh = setInterval(loadSchedule, 60_000);
+    const tick = setInterval(
+      () => setNow(Math.floor(Date.now() / 1000)),
+      1000
+    );
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
   }, []);
 
   // --------------------------------------------------
@@ -678,19 +1249,37 @@ export default function Home() {
     ? ethers.utils.formatUnits(tbagPerBuy, TBAG_DECIMALS)
     : "---";
 
-  const formattedClaimableTokens = claimableTokens
-    ? ethers.utils.formatUnits(claimableTokens, TBAG_DECIMALS)
+  // What the tabs show: the looked-up address, else the connected wallet
+  const isLookupView = lookup !== null;
+  const viewedAddress = lookup?.address ?? walletAddress;
+  const viewedTotalBuys = lookup ? lookup.stats.totalBuys : yourTotalBuys;
+  const viewedRemainingBuys = lookup
+    ? lookup.stats.remainingBuysToday
+    : remainingBuysToday;
+  const viewedClaimableBuys = lookup
+    ? lookup.stats.claimableBuys
+    : claimableBuys;
+  const viewedClaimableTokens = lookup
+    ? lookup.stats.claimableTokens
+    : claimableTokens;
+  const viewedPohVerified = lookup ? lookup.pohVerified : isPohVerified;
+
+  const formattedClaimableTokens = viewedClaimableTokens
+    ? ethers.utils.formatUnits(viewedClaimableTokens, TBAG_DECIMALS)
     : "0";
 
   const remainingBuysText = (() => {
-    if (!walletAddress) return "-";
+    if (!viewedAddress) return "-";
     if (maxBuysPerDay === 0) return "0";
-    if (remainingBuysToday === null) return "Loading…";
-    return `${remainingBuysToday} / ${maxBuysPerDay}`;
+    if (viewedRemainingBuys === null) return "Loading…";
+    return `${viewedRemainingBuys} / ${maxBuysPerDay}`;
   })();
 
   const buyButtonLabel = (() => {
-    if (PROGRAM_ENDED) return "Grab yer Bagz Ended";
+    if (isLookupView) return "Read-only View";
+    if (!program) return "Loading…";
+    if (program.phase === "upcoming") return `Opens in ${nextChangeIn}`;
+    if (!program.canBuy) return "Grab yer Bagz Ended";
     if (!walletAddress) return "Connect Wallet";
     if (!isOnTargetNetwork) return `Switch to ${TARGET_NETWORK_LABEL}`;
     if (isCheckingPoh) return "Checking PoH…";
@@ -700,10 +1289,22 @@ export default function Home() {
   })();
 
   const isBuyDisabled =
-    isBuying || isLoadingData || isCheckingPoh || !TBAG_DAILY_BUYS_ADDRESS;
+    isLookupView ||
+    !program ||
+    isBuying ||
+    isLoadingData ||
+    isCheckingPoh ||
+    !TBAG_DAILY_BUYS_ADDRESS;
 
   const claimButtonLabel = (() => {
-    if (PROGRAM_ENDED) return "Grab yer Bagz Ended";
+    if (isLookupView) return "Read-only View";
+    if (!program) return "Loading…";
+    if (program.phase === "closed") return "Claims Closed";
+    if (!program.canClaim) {
+      return claimsOpenAt !== null
+        ? `Claims Open in ${formatCountdown(claimsOpenAt - serverNow)}`
+        : "Claims Not Open Yet";
+    }
     if (!walletAddress) return "Connect Wallet";
     if (!isOnTargetNetwork) return `Switch to ${TARGET_NETWORK_LABEL}`;
     if (isClaiming) return "Claiming...";
@@ -712,31 +1313,106 @@ export default function Home() {
   })();
 
   const isClaimDisabled =
-    isClaiming || isLoadingData || !TBAG_DAILY_BUYS_ADDRESS;
+    isLookupView ||
+    !program ||
+    isClaiming ||
+    isLoadingData ||
+    !TBAG_DAILY_BUYS_ADDRESS;
+
+  // Countdown line under the wallet row
+  const scheduleText = (() => {
+    if (!program) return "Loading…";
+    if (program.next) return `${program.next.label} in ${nextChangeIn}`;
+    if (program.phase === "closed") return "Buys and claims are closed";
+    return program.canBuy ? "Buys open" : "Claims open";
+  })();
+
+  // What the phase modal says when an action isn't open
+  const phaseNotice = (() => {
+    const at = (ts: number) =>
+      `${formatScheduleDate(ts)} (in ${formatCountdown(ts - serverNow)})`;
+    const next = program?.next ? at(program.next.at) : null;
+    const claimsOpen = claimsOpenAt !== null ? at(claimsOpenAt) : "later";
+
+    switch (program?.phase) {
+      case "upcoming":
+        return {
+          title: "Grab yer Bagz hasn't started yet",
+          body: `Buys open ${next}.`,
+        };
+      case "active":
+        return {
+          title: "Claims aren't open yet",
+          body: `Buys are live. Claims open ${claimsOpen}.`,
+        };
+      case "claimsOnly":
+        return {
+          title: "Grab yer Bagz has ended",
+          body: program.canClaim
+            ? `Buys are closed, but you can still claim your TBAG${
+                next ? ` until ${next}` : ""
+              }.`
+            : `Buys are closed. Final claims open ${claimsOpen}.`,
+        };
+      default:
+        return {
+          title: "Grab yer Bagz has ended",
+          body: "Buys and claims are closed.",
+        };
+    }
+  })();
+
+  const rewardAmountText = (() => {
+    if (isLookupView) return "Connected wallet only";
+    if (!walletAddress) return "---";
+    if (rewardsPublished === false) return "Not published yet";
+    if (!rewardInfo) return "Loading…";
+    return `${formatTbagAmount(rewardInfo.amountFormatted)} TBAG`;
+  })();
+
+  const rewardButtonLabel = (() => {
+    if (isLookupView) return "Read-only View";
+    if (!walletAddress) return "Connect Wallet";
+    if (!isOnTargetNetwork) return `Switch to ${TARGET_NETWORK_LABEL}`;
+    if (isClaimingReward) return "Claiming...";
+    if (rewardsPublished === false) return "Rewards Not Published Yet";
+    if (rewardInfo && !rewardInfo.eligible) return "No Bonus For This Wallet";
+    if (rewardClaimed) return "Bonus Claimed";
+    if (!REWARDS_DISTRIBUTOR_ADDRESS) return "Claims Open Soon";
+    return "Claim Bonus TBAG";
+  })();
+
+  // Mirrors the label: disabled whenever it names a state claiming can't fix
+  const isRewardClaimDisabled =
+    isLookupView ||
+    isClaimingReward ||
+    rewardsPublished === false ||
+    rewardInfo?.eligible === false ||
+    rewardClaimed === true ||
+    !REWARDS_DISTRIBUTOR_ADDRESS;
 
   // PoH label
   let pohLabel = "";
   let pohClass = "";
-  if (isCheckingPoh) {
+  if (!isLookupView && isCheckingPoh) {
     pohLabel = "Checking...";
     pohClass = "checking";
-  } else if (isPohVerified === true) {
+  } else if (viewedPohVerified === true) {
     pohLabel = "Verified (Linea PoH)";
     pohClass = "ok";
-  } else if (walletAddress) {
+  } else if (isLookupView && viewedPohVerified === null) {
+    pohLabel = "Unknown (PoH check failed)";
+    pohClass = "checking";
+  } else if (viewedAddress) {
     pohLabel = "Not verified – required to buy";
     pohClass = "bad";
   }
 
-  // Your rank in leaderboard
-  const yourRank = (() => {
-    if (!walletAddress || leaderboardRows.length === 0) return null;
-    const idx = leaderboardRows.findIndex(
-      (row) => row.wallet.toLowerCase() === walletAddress.toLowerCase()
-    );
-    if (idx === -1) return null;
-    return idx + 1;
-  })();
+  const leaderboardView =
+    LEADERBOARD_VIEWS.find((v) => v.sort === leaderboardSort) ??
+    LEADERBOARD_VIEWS[0];
+  const leaderboardColSpan = leaderboardView.column ? 4 : 3;
+
 
   return (
     <>
@@ -788,8 +1464,55 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Address lookup (read-only view of any wallet) */}
+          <div className="lookup-row">
+            <input
+              className="lookup-input"
+              type="text"
+              placeholder="Look up any address (0x…)"
+              value={lookupInput}
+              onChange={(e) => setLookupInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") lookUpAddress();
+              }}
+              spellCheck={false}
+            />
+            <button
+              className="tiny-btn"
+              type="button"
+              onClick={lookUpAddress}
+              disabled={isLookingUp}
+            >
+              {isLookingUp ? "Loading…" : "Look up"}
+            </button>
+          </div>
+          {lookup && (
+            <div className="lookup-banner">
+              <span>
+                Viewing {lookup.address.slice(0, 6)}...
+                {lookup.address.slice(-4)} (read-only)
+              </span>
+              <button className="tiny-btn" type="button" onClick={exitLookup}>
+                {walletAddress ? "Back to my wallet" : "Close"}
+              </button>
+            </div>
+          )}
+
+          {/* Program phase + countdown */}
+          <div className="schedule-row">
+            <span className="label">Program</span>
+            <span className="schedule-status">
+              {program && (
+                <span className={`phase-tag ${program.phase}`}>
+                  {PHASE_LABELS[program.phase]}
+                </span>
+              )}
+              {scheduleText}
+            </span>
+          </div>
+
           {/* PoH row */}
-          {walletAddress && (
+          {viewedAddress && (
             <div className="poh-row">
               <span className="label">Proof of Humanity</span>
               <span className={`poh-tag ${pohClass}`}>{pohLabel}</span>
@@ -811,17 +1534,37 @@ export default function Home() {
               >
                 Claim
               </button>
+              <button
+                className={`tab-btn ${activeTab === "rewards" ? "active" : ""}`}
+                onClick={() => setActiveTab("rewards")}
+              >
+                Rewards
+              </button>
             </div>
-            <div className="rank-pill-wrapper">
-              <span className="label">Your Rank</span>
-              <span className="rank-pill">
-                {yourRank
-                  ? `#${yourRank}`
-                  : walletAddress
-                  ? "--"
-                  : "Connect to see"}
-              </span>
-            </div>
+            {lookup ? (
+              <div className="rank-pill-wrapper">
+                <span className="label">Rank</span>
+                <span className="rank-pill">
+                  <Link
+                    href={`/wallet/${lookup.address}`}
+                    className="wallet-link"
+                  >
+                    Profile
+                  </Link>
+                </span>
+              </div>
+            ) : (
+              <div className="rank-pill-wrapper">
+                <span className="label">Your Rank</span>
+                <span className="rank-pill">
+                  {walletAddress && yourRank
+                    ? `#${yourRank}`
+                    : walletAddress
+                    ? "--"
+                    : "Connect to see"}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* BUY TAB */}
@@ -833,9 +1576,11 @@ export default function Home() {
                   <span className="value">{remainingBuysText}</span>
                 </div>
                 <div className="info-box">
-                  <span className="label">Your Total Buys</span>
+                  <span className="label">
+                    {isLookupView ? "Total Buys" : "Your Total Buys"}
+                  </span>
                   <span className="value">
-                    {walletAddress ? yourTotalBuys : "-"}
+                    {viewedAddress ? viewedTotalBuys : "-"}
                   </span>
                 </div>
                 <div className="info-box">
@@ -879,9 +1624,9 @@ export default function Home() {
                 <div className="info-box">
                   <span className="label">Claimable Buys</span>
                   <span className="value">
-                    {walletAddress
-                      ? claimableBuys !== null
-                        ? claimableBuys
+                    {viewedAddress
+                      ? viewedClaimableBuys !== null
+                        ? viewedClaimableBuys
                         : "Loading…"
                       : "-"}
                   </span>
@@ -892,7 +1637,7 @@ export default function Home() {
                 <div className="info-box">
                   <span className="label">Claimable TBAG</span>
                   <span className="value">
-                    {walletAddress
+                    {viewedAddress
                       ? `${formattedClaimableTokens} TBAG`
                       : "---"}
                   </span>
@@ -915,11 +1660,87 @@ export default function Home() {
             </>
           )}
 
+          {/* REWARDS TAB */}
+          {activeTab === "rewards" && (
+            <>
+              <div className="info-grid single">
+                <div className="info-box">
+                  <span className="label">Leaderboard Bonus</span>
+                  <span className="value">{rewardAmountText}</span>
+                </div>
+              </div>
+
+              <div className="actions-row">
+                <button
+                  className="primary-btn"
+                  onClick={handleClaimReward}
+                  disabled={isRewardClaimDisabled}
+                >
+                  {rewardButtonLabel}
+                </button>
+              </div>
+
+              <p className="hint">
+                Extra TBAG for top wallets on the leaderboard, paid once per
+                wallet from a separate distributor contract.
+              </p>
+            </>
+          )}
+
           {errorMessage && <div className="error-box">{errorMessage}</div>}
           {successMessage && (
             <div className="success-box">{successMessage}</div>
           )}
 
+          {trackedTxs.length > 0 && (
+            <div className="tx-panel">
+              <div className="tx-panel-header">
+                <span className="label">Recent Transactions</span>
+                <button
+                  className="tiny-btn"
+                  type="button"
+                  onClick={clearSettledTransactions}
+                >
+                  Clear
+                </button>
+              </div>
+              {trackedTxs.map((tx) => (
+                <div key={tx.hash} className="tx-row">
+                  <span className="tx-kind">{TX_KIND_LABELS[tx.kind]}</span>
+                  <span className="tx-links">
+                    <a
+                      href={`${EXPLORER_TX_URL}${tx.hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {shortHash(tx.hash)}
+                    </a>
+                    {tx.replacedBy && (
+                      <>
+                        {" → "}
+                        <a
+                          href={`${EXPLORER_TX_URL}${tx.replacedBy}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          {shortHash(tx.replacedBy)}
+                        </a>
+                      </>
+                    )}
+                  </span>
+                  <span className={`tx-status ${tx.status}`}>
+                    {TX_STATUS_LABELS[tx.status]}
+                  </span>
+                  <span className="tx-time">
+                    {new Date(tx.submittedAt).toLocaleTimeString(undefined, {
+                      timeStyle: "short",
+                    })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {isLoadingData && (
             <div className="hint">Loading contract data from Linea…</div>
           )}
@@ -929,9 +1750,23 @@ export default function Home() {
         <div className="leaderboard-card">
           <div className="leaderboard-header">
             <span className="label">Leaderboard</span>
-            <span className="leaderboard-sub">
-              Wallets ranked by total free buys
-            </span>
+            <span className="leaderboard-sub">{leaderboardView.subtitle}</span>
+          </div>
+
+          <div className="leaderboard-views">
+            {LEADERBOARD_VIEWS.map((view) => (
+              <button
+                key={view.sort}
+                type="button"
+                className={`view-btn ${
+                  leaderboardSort === view.sort ? "active" : ""
+                }`}
+                onClick={() => setLeaderboardSort(view.sort)}
+                disabled={isLoadingLeaderboard}
+              >
+                {view.label}
+              </button>
+            ))}
           </div>
 
           {isLoadingLeaderboard && (
@@ -942,28 +1777,80 @@ export default function Home() {
             <div className="error-box">{leaderboardError}</div>
           )}
 
+          <div className="leaderboard-window-row">
+            <select
+              className="leaderboard-window"
+              value={leaderboardWindow}
+              onChange={(e) =>
+                setLeaderboardWindow(e.target.value as LeaderboardWindow)
+              }
+            >
+              {LEADERBOARD_WINDOWS.map((w) => (
+                <option key={w.value} value={w.value}>
+                  {w.label}
+                </option>
+              ))}
+            </select>
+            {leaderboardWindow === "custom" && (
+              <>
+                <input
+                  className="leaderboard-date"
+                  type="date"
+                  value={leaderboardFromDate}
+                  max={leaderboardToDate || undefined}
+                  onChange={(e) => setLeaderboardFromDate(e.target.value)}
+                />
+                <span className="leaderboard-sub">to</span>
+                <input
+                  className="leaderboard-date"
+                  type="date"
+                  value={leaderboardToDate}
+                  min={leaderboardFromDate || undefined}
+                  onChange={(e) => setLeaderboardToDate(e.target.value)}
+                />
+              </>
+            )}
+          </div>
+
+          <input
+            className="leaderboard-search"
+            type="text"
+            placeholder="Search wallet (0x…)"
+            value={leaderboardSearch}
+            onChange={(e) => setLeaderboardSearch(e.target.value)}
+            spellCheck={false}
+          />
+
           {!isLoadingLeaderboard && !leaderboardError && (
-            <div className="leaderboard-table-wrapper">
+            <div
+              className="leaderboard-table-wrapper"
+              onScroll={handleLeaderboardScroll}
+            >
               <table className="leaderboard-table">
                 <thead>
                   <tr>
                     <th>#</th>
                     <th>Wallet</th>
                     <th>Free Buys</th>
+                    {leaderboardView.column && (
+                      <th>{leaderboardView.column}</th>
+                    )}
                   </tr>
                 </thead>
                 <tbody>
                   {leaderboardRows.length === 0 && (
                     <tr>
                       <td
-                        colSpan={3}
+                        colSpan={leaderboardColSpan}
                         style={{ textAlign: "center", padding: "8px" }}
                       >
-                        No buys yet. Be the first to grab a bag.
+                        {leaderboardSearch.trim()
+                          ? "No wallets match this search."
+                          : "No buys yet. Be the first to grab a bag."}
                       </td>
                     </tr>
                   )}
-                  {leaderboardRows.map((row, index) => {
+                  {leaderboardRows.map((row) => {
                     const isSelf =
                       walletAddress &&
                       row.wallet.toLowerCase() ===
@@ -973,12 +1860,23 @@ export default function Home() {
                         key={row.wallet}
                         className={isSelf ? "leaderboard-row-self" : ""}
                       >
-                        <td>{index + 1}</td>
+                        <td>{row.rank}</td>
                         <td>
-                          {row.wallet.slice(0, 6)}...
-                          {row.wallet.slice(-4)}
+                          <Link
+                            href={`/wallet/${row.wallet}`}
+                            className="wallet-link"
+                          >
+                            {row.wallet.slice(0, 6)}...
+                            {row.wallet.slice(-4)}
+                          </Link>
                         </td>
                         <td>{row.totalBuys}</td>
+                        {leaderboardSort === "claimed" && (
+                          <td>{formatTbagAmount(row.totalTokensClaimed)}</td>
+                        )}
+                        {leaderboardSort === "unclaimed" && (
+                          <td>{formatTbagAmount(row.unclaimedTokens)}</td>
+                        )}
                       </tr>
                     );
                   })}
@@ -986,6 +1884,25 @@ export default function Home() {
               </table>
             </div>
           )}
+
+          {!isLoadingLeaderboard && !leaderboardError && leaderboardTotal > 0 && (
+            <div className="leaderboard-footer">
+              <span className="leaderboard-sub">
+                Showing {leaderboardRows.length} of{" "}
+                {leaderboardTotal.toLocaleString()}
+              </span>
+              {leaderboardNextOffset !== null && (
+                <button
+                  type="button"
+                  className="tiny-btn"
+                  onClick={loadMoreLeaderboard}
+                  disabled={isLoadingMoreLeaderboard}
+                >
+                  {isLoadingMoreLeaderboard ? "Loading…" : "Load more"}
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Welcome modal (you can remove this entirely if you want) */}
@@ -1026,7 +1943,7 @@ export default function Home() {
           </div>
         )}
 
-        {/* Confirm buy modal (won't be reachable when PROGRAM_ENDED = true) */}
+        {/* Confirm buy modal (only reachable while buys are open) */}
         {showConfirmModal && (
           <div className="modal-backdrop">
             <div className="modal-card">
@@ -1059,20 +1976,17 @@ export default function Home() {
           </div>
         )}
 
-        {/* NEW: Program Ended modal */}
-        {showEndedModal && (
+        {/* Program phase modal (buy / claim outside their window) */}
+        {showPhaseModal && (
           <div className="modal-backdrop">
             <div className="modal-card">
-              <h2>Grab yer Bagz has ended</h2>
-              <p className="modal-body">
-                Grab yer Bagz has ended. Final claims will be opened Monday 2nd
-                February.
-              </p>
+              <h2>{phaseNotice.title}</h2>
+              <p className="modal-body">{phaseNotice.body}</p>
               <div className="modal-actions">
                 <button
                   type="button"
                   className="primary-btn"
-                  onClick={() => setShowEndedModal(false)}
+                  onClick={() => setShowPhaseModal(false)}
                 >
                   Close
                 </button>
@@ -1080,6 +1994,44 @@ export default function Home() {
             </div>
           </div>
         )}
+
+        {/* Wallet picker (several EIP-6963 wallets installed) */}
+        {showWalletPicker && (
+          <div className="modal-backdrop">
+            <div className="modal-card">
+              <h2>Choose a wallet</h2>
+              <div className="wallet-list">
+                {wallets.map((wallet) => (
+                  <button
+                    key={wallet.info.uuid}
+                    type="button"
+                    className="wallet-option"
+                    onClick={() => connectWallet(wallet)}
+                  >
+                    <span
+                      className="wallet-icon"
+                      style={
+                        wallet.info.icon
+                          ? { backgroundImage: `url("${wallet.info.icon}")` }
+                          : undefined
+                      }
+                    />
+                    {wallet.info.name}
+                  </button>
+                ))}
+              </div>
+              <div className="modal-actions">
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => setShowWalletPicker(false)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
 
       <style jsx>{`
@@ -1164,6 +2116,74 @@ export default function Home() {
         .tiny-btn:hover {
           background: rgba(37, 99, 235, 0.8);
         }
+        .lookup-row {
+          margin-top: 10px;
+          display: flex;
+          gap: 8px;
+          align-items: center;
+        }
+        .lookup-input {
+          flex: 1;
+          min-width: 0;
+          padding: 5px 10px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: rgba(15, 23, 42, 0.9);
+          color: #e5e7eb;
+          font-size: 0.75rem;
+          outline: none;
+        }
+        .lookup-input:focus {
+          border-color: rgba(129, 140, 248, 0.9);
+        }
+        .lookup-banner {
+          margin-top: 8px;
+          padding: 6px 10px;
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+          border-radius: 10px;
+          border: 1px solid rgba(234, 179, 8, 0.6);
+          background: rgba(234, 179, 8, 0.1);
+          color: #fef08a;
+          font-size: 0.75rem;
+        }
+        .schedule-row {
+          margin-top: 8px;
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          font-size: 0.78rem;
+        }
+        .schedule-status {
+          display: inline-flex;
+          align-items: center;
+          gap: 8px;
+          font-variant-numeric: tabular-nums;
+        }
+        .phase-tag {
+          padding: 3px 8px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.6);
+          font-size: 0.7rem;
+        }
+        .phase-tag.active {
+          background: rgba(34, 197, 94, 0.12);
+          border-color: rgba(34, 197, 94, 0.8);
+          color: #bbf7d0;
+        }
+        .phase-tag.upcoming,
+        .phase-tag.claimsOnly {
+          background: rgba(234, 179, 8, 0.12);
+          border-color: rgba(234, 179, 8, 0.8);
+          color: #fef08a;
+        }
+        .phase-tag.closed {
+          background: rgba(248, 113, 113, 0.12);
+          border-color: rgba(248, 113, 113, 0.8);
+          color: #fecaca;
+        }
         .poh-row {
           margin-top: 8px;
           display: flex;
@@ -1333,6 +2353,66 @@ export default function Home() {
           color: #bbf7d0;
         }
 
+        /* Recent transactions */
+        .tx-panel {
+          margin-top: 14px;
+          padding-top: 10px;
+          border-top: 1px solid rgba(148, 163, 184, 0.25);
+        }
+        .tx-panel-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 6px;
+        }
+        .tx-row {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 4px 0;
+          font-size: 0.75rem;
+        }
+        .tx-kind {
+          min-width: 72px;
+          color: #e5e7eb;
+        }
+        .tx-links {
+          flex: 1;
+          font-family: monospace;
+        }
+        .tx-links a {
+          color: #93c5fd;
+          text-decoration: none;
+        }
+        .tx-links a:hover {
+          text-decoration: underline;
+        }
+        .tx-status {
+          padding: 2px 8px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.6);
+        }
+        .tx-status.confirmed {
+          background: rgba(34, 197, 94, 0.12);
+          border-color: rgba(34, 197, 94, 0.8);
+          color: #bbf7d0;
+        }
+        .tx-status.failed,
+        .tx-status.dropped {
+          background: rgba(248, 113, 113, 0.12);
+          border-color: rgba(248, 113, 113, 0.8);
+          color: #fecaca;
+        }
+        .tx-status.cancelled,
+        .tx-status.replaced {
+          background: rgba(250, 204, 21, 0.12);
+          border-color: rgba(250, 204, 21, 0.8);
+          color: #fef08a;
+        }
+        .tx-time {
+          color: #9ca3af;
+        }
+
         /* Leaderboard */
         .leaderboard-card {
           max-width: 540px;
@@ -1357,6 +2437,32 @@ export default function Home() {
           font-size: 0.7rem;
           color: #9ca3af;
         }
+        .leaderboard-views {
+          display: inline-flex;
+          gap: 4px;
+          margin-bottom: 8px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: rgba(15, 23, 42, 0.9);
+          padding: 3px;
+        }
+        .view-btn {
+          border: none;
+          background: transparent;
+          color: #e5e7eb;
+          padding: 4px 12px;
+          border-radius: 999px;
+          font-size: 0.7rem;
+          text-transform: uppercase;
+          letter-spacing: 0.08em;
+          cursor: pointer;
+        }
+        .view-btn.active {
+          background: linear-gradient(135deg, #6366f1, #ec4899);
+        }
+        .view-btn:disabled {
+          cursor: default;
+        }
         .leaderboard-table-wrapper {
           max-height: 220px;
           overflow-y: auto;
@@ -1389,6 +2495,15 @@ export default function Home() {
         .leaderboard-table tr:nth-child(odd) td {
           background: rgba(15, 23, 42, 0.95);
         }
+        .leaderboard-table :global(.wallet-link),
+        .rank-pill :global(.wallet-link) {
+          color: inherit;
+          text-decoration: none;
+        }
+        .leaderboard-table :global(.wallet-link:hover),
+        .rank-pill :global(.wallet-link:hover) {
+          text-decoration: underline;
+        }
         .leaderboard-row-self td {
           background: radial-gradient(
             circle at top left,
@@ -1402,9 +2517,41 @@ export default function Home() {
           margin-top: 8px;
           display: flex;
           justify-content: flex-end;
+          align-items: center;
           gap: 6px;
           font-size: 0.75rem;
         }
+        .leaderboard-window-row {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 6px;
+          margin-bottom: 8px;
+        }
+        .leaderboard-window,
+        .leaderboard-date {
+          padding: 4px 10px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: rgba(15, 23, 42, 0.9);
+          color: #e5e7eb;
+          font-size: 0.7rem;
+          color-scheme: dark;
+        }
+        .leaderboard-search {
+          width: 100%;
+          margin-bottom: 8px;
+          padding: 6px 10px;
+          border-radius: 999px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: rgba(15, 23, 42, 0.9);
+          color: #e5e7eb;
+          font-size: 0.75rem;
+          outline: none;
+        }
+        .leaderboard-search:focus {
+          border-color: rgba(129, 140, 248, 0.9);
+        }
 
         /* Modals */
         .modal-backdrop {
@@ -1449,6 +2596,37 @@ export default function Home() {
           display: flex;
           justify-content: flex-end;
         }
+        .wallet-list {
+          margin-top: 10px;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+        .wallet-option {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          padding: 10px 14px;
+          border-radius: 12px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: rgba(15, 23, 42, 0.95);
+          color: #e5e7eb;
+          font-size: 0.9rem;
+          cursor: pointer;
+          text-align: left;
+        }
+        .wallet-option:hover {
+          border-color: rgba(37, 99, 235, 0.8);
+        }
+        .wallet-icon {
+          width: 28px;
+          height: 28px;
+          border-radius: 8px;
+          background-color: rgba(148, 163, 184, 0.2);
+          background-size: cover;
+          background-position: center;
+          flex-shrink: 0;
+        }
 
         @media (max-width: 640px) {
           .card {
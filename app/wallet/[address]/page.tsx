@@ -0,0 +1,332 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import type { WalletEvent, WalletProfile } from "@/lib/wallet";
+
+// --------------------------------------------------
+// Config
+// --------------------------------------------------
+const LINEASCAN_URL = "https://lineascan.build";
+
+const formatTbagAmount = (formatted: string) =>
+  Number(formatted).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatTimestamp = (ts: number | null) =>
+  ts ? new Date(ts * 1000).toLocaleString() : "—";
+
+const describeEvent = (event: WalletEvent) =>
+  event.type === "buy"
+    ? `Buy #${event.userTotalBuys} (${event.buysInCurrentWindow} in window)`
+    : `Claimed ${event.buysClaimed} buys for ${formatTbagAmount(
+        event.tokensPaid
+      )} TBAG`;
+
+export default function WalletProfilePage() {
+  const { address } = useParams<{ address: string }>();
+
+  const [profile, setProfile] = useState<WalletProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // --------------------------------------------------
+  // Load wallet stats from API
+  // --------------------------------------------------
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/wallet/${address}`);
+        const data = await res.json();
+
+        if (cancelled) return;
+        if (!res.ok) {
+          setErrorMessage(data?.error ?? "Could not load wallet stats.");
+          setProfile(null);
+          return;
+        }
+        setProfile(data as WalletProfile);
+        setErrorMessage(null);
+      } catch (err) {
+        console.error("Error loading wallet stats:", err);
+        if (!cancelled) setErrorMessage("Could not load wallet stats.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const totals = profile?.totals;
+
+  return (
+    <>
+      <div className="page-root">
+        <div className="card">
+          <div className="card-header">
+            <Link href="/" className="back-link">
+              ← Back to Grab yer Bagz
+            </Link>
+            <h1>Wallet</h1>
+            <p className="address">{profile?.wallet ?? address}</p>
+          </div>
+
+          {isLoading && <div className="hint">Loading wallet stats…</div>}
+          {errorMessage && <div className="error-box">{errorMessage}</div>}
+
+          {profile && (
+            <>
+              <div className="info-grid">
+                <div className="info-box">
+                  <span className="label">Rank (Buys)</span>
+                  <span className="value">
+                    {profile.rank
+                      ? `#${profile.rank} / ${profile.totalWallets}`
+                      : "--"}
+                  </span>
+                </div>
+                <div className="info-box">
+                  <span className="label">Total Buys</span>
+                  <span className="value">{totals?.totalBuys ?? 0}</span>
+                </div>
+                <div className="info-box">
+                  <span className="label">Claim Txs</span>
+                  <span className="value">{totals?.totalClaimTxs ?? 0}</span>
+                </div>
+              </div>
+
+              <div className="info-grid">
+                <div className="info-box">
+                  <span className="label">Buys Claimed</span>
+                  <span className="value">
+                    {totals?.totalBuysClaimed ?? 0}
+                  </span>
+                </div>
+                <div className="info-box">
+                  <span className="label">TBAG Claimed</span>
+                  <span className="value">
+                    {formatTbagAmount(totals?.totalTokensClaimed ?? "0")}
+                  </span>
+                </div>
+                <div className="info-box">
+                  <span className="label">TBAG Unclaimed</span>
+                  <span className="value">
+                    {formatTbagAmount(totals?.unclaimedTokens ?? "0")}
+                  </span>
+                </div>
+              </div>
+
+              <p className="hint">
+                Indexed to block {profile.indexedToBlock.toLocaleString()}.
+              </p>
+            </>
+          )}
+        </div>
+
+        {profile && (
+          <div className="leaderboard-card">
+            <div className="leaderboard-header">
+              <span className="label">Timeline</span>
+              <span className="leaderboard-sub">
+                {profile.events.length} Buy / Claim events
+              </span>
+            </div>
+
+            <div className="leaderboard-table-wrapper">
+              <table className="leaderboard-table">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Event</th>
+                    <th>Block</th>
+                    <th>Tx</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.events.length === 0 && (
+                    <tr>
+                      <td
+                        colSpan={4}
+                        style={{ textAlign: "center", padding: "8px" }}
+                      >
+                        No buys or claims for this wallet yet.
+                      </td>
+                    </tr>
+                  )}
+                  {[...profile.events].reverse().map((event) => (
+                    <tr key={`${event.txHash}-${event.logIndex}`}>
+                      <td>{formatTimestamp(event.timestamp)}</td>
+                      <td>{describeEvent(event)}</td>
+                      <td>{event.blockNumber}</td>
+                      <td>
+                        <a
+                          href={`${LINEASCAN_URL}/tx/${event.txHash}`}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          {event.txHash.slice(0, 10)}…
+                        </a>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <style jsx>{`
+        .page-root {
+          min-height: 100vh;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          justify-content: center;
+          background: radial-gradient(circle at top, #020617 0, #020617 55%);
+          color: #f9fafb;
+          padding: 24px;
+          font-family: system-ui, -apple-system, BlinkMacSystemFont, sans-serif;
+          gap: 16px;
+        }
+        .card {
+          max-width: 540px;
+          width: 100%;
+          background: radial-gradient(circle at top left, #0f172a 0, #020617 60%);
+          border-radius: 24px;
+          padding: 20px 20px 24px;
+          border: 1px solid rgba(148, 163, 184, 0.5);
+          box-shadow: 0 0 50px rgba(129, 140, 248, 0.45);
+        }
+        .card-header :global(.back-link) {
+          font-size: 0.75rem;
+          color: #9ca3af;
+          text-decoration: none;
+        }
+        .card-header h1 {
+          margin: 8px 0 0;
+          font-size: 1.7rem;
+          letter-spacing: 0.08em;
+          text-transform: uppercase;
+        }
+        .card-header .address {
+          margin: 6px 0 0;
+          font-size: 0.8rem;
+          color: #cbd5f5;
+          word-break: break-all;
+        }
+        .info-grid {
+          display: grid;
+          grid-template-columns: repeat(3, minmax(0, 1fr));
+          gap: 10px;
+          margin-top: 16px;
+        }
+        .info-box {
+          padding: 10px 12px;
+          border-radius: 14px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: radial-gradient(
+            circle at top left,
+            rgba(79, 70, 229, 0.3),
+            rgba(15, 23, 42, 0.95)
+          );
+        }
+        .label {
+          display: block;
+          font-size: 0.7rem;
+          text-transform: uppercase;
+          letter-spacing: 0.09em;
+          color: #9ca3af;
+          margin-bottom: 2px;
+        }
+        .value {
+          font-size: 0.95rem;
+          font-weight: 500;
+        }
+        .hint {
+          margin-top: 10px;
+          font-size: 0.75rem;
+          color: #9ca3af;
+        }
+        .error-box {
+          margin-top: 12px;
+          padding: 8px 10px;
+          border-radius: 8px;
+          background: rgba(248, 113, 113, 0.1);
+          border: 1px solid rgba(248, 113, 113, 0.7);
+          font-size: 0.8rem;
+          color: #fecaca;
+        }
+
+        /* Timeline (same look as the leaderboard) */
+        .leaderboard-card {
+          max-width: 540px;
+          width: 100%;
+          background: radial-gradient(
+            circle at top left,
+            #020617 0,
+            #020617 60%
+          );
+          border-radius: 20px;
+          border: 1px solid rgba(148, 163, 184, 0.7);
+          box-shadow: 0 0 35px rgba(129, 140, 248, 0.4);
+          padding: 14px 16px 16px;
+        }
+        .leaderboard-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: baseline;
+          margin-bottom: 8px;
+        }
+        .leaderboard-sub {
+          font-size: 0.7rem;
+          color: #9ca3af;
+        }
+        .leaderboard-table-wrapper {
+          max-height: 360px;
+          overflow-y: auto;
+          border-radius: 12px;
+          border: 1px solid rgba(148, 163, 184, 0.4);
+          background: rgba(15, 23, 42, 0.85);
+        }
+        .leaderboard-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.8rem;
+        }
+        .leaderboard-table th,
+        .leaderboard-table td {
+          padding: 6px 10px;
+          text-align: left;
+          border-bottom: 1px solid rgba(30, 64, 175, 0.3);
+        }
+        .leaderboard-table th {
+          font-weight: 500;
+          color: #9ca3af;
+          text-transform: uppercase;
+          letter-spacing: 0.08em;
+          font-size: 0.7rem;
+          background: rgba(15, 23, 42, 0.95);
+        }
+        .leaderboard-table a {
+          color: #a5b4fc;
+        }
+
+        @media (max-width: 640px) {
+          .card {
+            padding: 18px 14px 22px;
+          }
+          .info-grid {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+// ----------------------------------------
+// Admin routes: `Authorization: Bearer <ADMIN_API_TOKEN>`.
+// Disabled (404) when ADMIN_API_TOKEN isn't set.
+// ----------------------------------------
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN ?? "";
+
+// null when authorized, otherwise the response to send back
+export function checkAdminAuth(request: Request): NextResponse | null {
+  if (!ADMIN_API_TOKEN) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+
+  const expected = Buffer.from(ADMIN_API_TOKEN);
+  const given = Buffer.from(token);
+  if (
+    given.length !== expected.length ||
+    !crypto.timingSafeEqual(given, expected)
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
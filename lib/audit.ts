@@ -0,0 +1,237 @@
+import { ethers } from "ethers";
+import {
+  TBAG_DAILY_BUYS_ADDRESS,
+  getTbagDailyBuysContract,
+  readWalletViews,
+  type BuyEvent,
+} from "./contracts/tbagDailyFreeBuys";
+import type { IndexState } from "./indexer/types";
+
+// ----------------------------------------
+// Types
+// ----------------------------------------
+
+export type AuditMismatch = {
+  wallet: string;
+  field: "totalBuys" | "claimableBuys" | "lastUserTotalBuys";
+  indexed: number;
+  onChain: number;
+};
+
+// A hole in a wallet's Buy.userTotalBuys sequence: events `missing` should
+// exist somewhere between fromBlock and toBlock but are not in the index
+export type AuditSequenceGap = {
+  wallet: string;
+  missing: number[];
+  fromBlock: number;
+  toBlock: number;
+};
+
+export type AuditDuplicate = {
+  wallet: string;
+  userTotalBuys: number;
+  txHashes: string[];
+};
+
+export type AuditReport = {
+  contract: string;
+  // On-chain views are read at the last indexed block so head lag can't
+  // show up as a mismatch
+  blockTag: number;
+  indexedRange: { fromBlock: number; toBlock: number };
+  walletsChecked: number;
+  global: {
+    indexedBuys: number;
+    onChainTotalBuysGlobal: number;
+    match: boolean;
+  };
+  mismatches: AuditMismatch[];
+  sequenceGaps: AuditSequenceGap[];
+  duplicates: AuditDuplicate[];
+  ok: boolean;
+};
+
+export type AuditOptions = {
+  // Only check these wallets (default: every indexed wallet)
+  wallets?: string[];
+  // Calls per Multicall3 batch, 2 per wallet (default MULTICALL_BATCH_SIZE)
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+// ----------------------------------------
+// In-event counters: each Buy carries the wallet's running total, so a
+// wallet's events must read 1, 2, …, n with no holes or repeats
+// ----------------------------------------
+export function checkBuySequences(buys: BuyEvent[]): {
+  sequenceGaps: AuditSequenceGap[];
+  duplicates: AuditDuplicate[];
+  lastUserTotalBuys: Map<string, number>;
+} {
+  const byWallet = new Map<string, BuyEvent[]>();
+  for (const buy of buys) {
+    const list = byWallet.get(buy.wallet) ?? [];
+    list.push(buy);
+    byWallet.set(buy.wallet, list);
+  }
+
+  const sequenceGaps: AuditSequenceGap[] = [];
+  const duplicates: AuditDuplicate[] = [];
+  const lastUserTotalBuys = new Map<string, number>();
+
+  for (const [wallet, events] of byWallet) {
+    events.sort(
+      (a, b) =>
+        a.userTotalBuys - b.userTotalBuys ||
+        a.blockNumber - b.blockNumber ||
+        a.logIndex - b.logIndex
+    );
+
+    let expected = 1;
+    let prevBlock = events[0].blockNumber;
+
+    for (let i = 0; i < events.length; i++) {
+      const e = events[i];
+
+      if (i > 0 && e.userTotalBuys === events[i - 1].userTotalBuys) {
+        const last = duplicates[duplicates.length - 1];
+        if (last?.wallet === wallet && last.userTotalBuys === e.userTotalBuys) {
+          last.txHashes.push(e.txHash);
+        } else {
+          duplicates.push({
+            wallet,
+            userTotalBuys: e.userTotalBuys,
+            txHashes: [events[i - 1].txHash, e.txHash],
+          });
+        }
+        continue;
+      }
+
+      if (e.userTotalBuys > expected) {
+        const missing = [];
+        for (let n = expected; n < e.userTotalBuys; n++) missing.push(n);
+        sequenceGaps.push({
+          wallet,
+          missing,
+          fromBlock: expected === 1 ? 0 : prevBlock,
+          toBlock: e.blockNumber,
+        });
+      }
+
+      expected = e.userTotalBuys + 1;
+      prevBlock = e.blockNumber;
+    }
+
+    lastUserTotalBuys.set(wallet, events[events.length - 1].userTotalBuys);
+  }
+
+  return { sequenceGaps, duplicates, lastUserTotalBuys };
+}
+
+// ----------------------------------------
+// Audit: cross-check indexed counts against totalBuys / claimableBuys /
+// totalBuysGlobal and the in-event userTotalBuys counters
+// ----------------------------------------
+export async function auditIndex(
+  provider: ethers.providers.Provider,
+  state: IndexState,
+  options: AuditOptions = {}
+): Promise<AuditReport> {
+  const { batchSize, onProgress } = options;
+  const blockTag = state.lastIndexedBlock;
+  const contract = getTbagDailyBuysContract(provider);
+
+  const indexedBuys = new Map<string, number>();
+  const indexedBuysClaimed = new Map<string, number>();
+  for (const buy of state.buys) {
+    indexedBuys.set(buy.wallet, (indexedBuys.get(buy.wallet) ?? 0) + 1);
+  }
+  for (const claim of state.claims) {
+    indexedBuysClaimed.set(
+      claim.wallet,
+      (indexedBuysClaimed.get(claim.wallet) ?? 0) + claim.buysClaimed
+    );
+  }
+
+  const wallets = options.wallets
+    ? options.wallets.map((w) => ethers.utils.getAddress(w))
+    : Array.from(new Set([...indexedBuys.keys(), ...indexedBuysClaimed.keys()]));
+
+  const walletSet = new Set(wallets);
+  const { sequenceGaps, duplicates, lastUserTotalBuys } = checkBuySequences(
+    state.buys.filter((b) => walletSet.has(b.wallet))
+  );
+
+  const mismatches: AuditMismatch[] = [];
+
+  const onChain = (
+    await readWalletViews(
+      provider,
+      wallets,
+      ["totalBuys", "claimableBuys"],
+      { batchSize, blockTag, onProgress }
+    )
+  ).map((views, i) => ({
+    wallet: wallets[i],
+    totalBuys: views.totalBuys.toNumber(),
+    claimableBuys: views.claimableBuys.toNumber(),
+  }));
+
+  for (const chain of onChain) {
+    const { wallet } = chain;
+    const buys = indexedBuys.get(wallet) ?? 0;
+    const claimable = buys - (indexedBuysClaimed.get(wallet) ?? 0);
+
+    if (buys !== chain.totalBuys) {
+      mismatches.push({
+        wallet,
+        field: "totalBuys",
+        indexed: buys,
+        onChain: chain.totalBuys,
+      });
+    }
+    if (claimable !== chain.claimableBuys) {
+      mismatches.push({
+        wallet,
+        field: "claimableBuys",
+        indexed: claimable,
+        onChain: chain.claimableBuys,
+      });
+    }
+
+    const lastCounter = lastUserTotalBuys.get(wallet) ?? 0;
+    if (lastCounter !== chain.totalBuys) {
+      mismatches.push({
+        wallet,
+        field: "lastUserTotalBuys",
+        indexed: lastCounter,
+        onChain: chain.totalBuys,
+      });
+    }
+  }
+
+  const totalBuysGlobal = Number(
+    await contract.totalBuysGlobal({ blockTag })
+  );
+  const global = {
+    indexedBuys: state.buys.length,
+    onChainTotalBuysGlobal: totalBuysGlobal,
+    match: state.buys.length === totalBuysGlobal,
+  };
+
+  return {
+    contract: TBAG_DAILY_BUYS_ADDRESS,
+    blockTag,
+    indexedRange: { fromBlock: state.fromBlock, toBlock: state.lastIndexedBlock },
+    walletsChecked: wallets.length,
+    global,
+    mismatches,
+    sequenceGaps,
+    duplicates,
+    ok:
+      global.match &&
+      mismatches.length === 0 &&
+      sequenceGaps.length === 0 &&
+      duplicates.length === 0,
+  };
+}
@@ -0,0 +1,50 @@
+// ----------------------------------------
+// Server-side config shared by API routes and scripts
+// ----------------------------------------
+
+// RPC endpoints live in ./rpc (LINEA_RPC_URLS); contract address / ABI /
+// decimals in ./contracts/tbagDailyFreeBuys
+
+// Starting block override; when unset scanners start at the contract's
+// deployment block (see ./indexer/deployBlock)
+export const LEADERBOARD_FROM_BLOCK: number | null = process.env
+  .LEADERBOARD_FROM_BLOCK
+  ? Number(process.env.LEADERBOARD_FROM_BLOCK)
+  : null;
+
+// Blocks to stay behind the head; logs newer than this are not indexed yet
+export const INDEXER_CONFIRMATIONS = Number(
+  process.env.INDEXER_CONFIRMATIONS ?? 10
+);
+
+// How many block-hash checkpoints to keep for reorg detection
+export const INDEXER_MAX_CHECKPOINTS = Number(
+  process.env.INDEXER_MAX_CHECKPOINTS ?? 256
+);
+
+// Where the indexer keeps its event store + checkpoint
+// (on serverless hosts point this at a writable volume, e.g. /tmp)
+export const INDEXER_DATA_DIR =
+  process.env.INDEXER_DATA_DIR ?? ".data";
+
+// Bonus reward allocation served by /api/rewards/[address]: the JSON file
+// written by the CLI `rewards` command, a JSON list of { wallet, amount } or
+// a CSV with wallet,amount columns (amounts in wei). Unset = no rewards yet.
+export const REWARDS_ALLOCATION_FILE =
+  process.env.REWARDS_ALLOCATION_FILE ?? null;
+
+// Program schedule JSON (phases / countdowns on the page); defaults to
+// $INDEXER_DATA_DIR/program-schedule.json. Missing file = program closed.
+export const PROGRAM_SCHEDULE_FILE =
+  process.env.PROGRAM_SCHEDULE_FILE ?? null;
+
+// Solvency monitor: warn when the contract's TBAG balance, after paying
+// every outstanding claim, covers fewer than this many days of new buys
+export const SOLVENCY_MIN_RUNWAY_DAYS = Number(
+  process.env.SOLVENCY_MIN_RUNWAY_DAYS ?? 7
+);
+
+// Days of recent buys used to estimate the daily payout rate
+export const SOLVENCY_LOOKBACK_DAYS = Number(
+  process.env.SOLVENCY_LOOKBACK_DAYS ?? 7
+);
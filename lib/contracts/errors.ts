@@ -0,0 +1,143 @@
+import { ethers } from "ethers";
+import {
+  MERKLE_DISTRIBUTOR_ERRORS,
+  MERKLE_DISTRIBUTOR_REVERT_REASONS,
+  type MerkleDistributorError,
+} from "./merkleDistributor";
+import {
+  TBAG_DAILY_BUYS_ERRORS,
+  type TbagDailyBuysError,
+} from "./tbagDailyFreeBuys";
+
+// ----------------------------------------
+// Revert decoding: find the revert data in whatever shape the wallet / RPC
+// wrapped it in and decode it against the contracts' custom errors
+// ----------------------------------------
+
+export type ContractErrorName = TbagDailyBuysError | MerkleDistributorError;
+
+// custom = one of our contracts' errors; reason = a plain
+// require(…, "reason") revert we don't have an error for
+export type DecodedContractError =
+  | { kind: "custom"; name: ContractErrorName; args: ethers.utils.Result }
+  | { kind: "reason"; reason: string };
+
+const CONTRACT_ERROR_NAMES: readonly ContractErrorName[] = Array.from(
+  new Set<ContractErrorName>([
+    ...TBAG_DAILY_BUYS_ERRORS,
+    ...MERKLE_DISTRIBUTOR_ERRORS,
+  ])
+);
+
+// Both contracts declare parameterless errors, so one interface decodes all
+const errorsInterface = new ethers.utils.Interface(
+  CONTRACT_ERROR_NAMES.map((name) => `error ${name}()`)
+);
+
+// Error(string)
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+// Keys wallets / ethers / RPC nodes nest the original error under. Not
+// `transaction`: its `data` is our calldata, not revert data.
+const NESTED_ERROR_KEYS = ["error", "data", "originalError", "cause"] as const;
+const MAX_DEPTH = 6;
+
+const isRevertData = (value: unknown): value is string =>
+  typeof value === "string" &&
+  ethers.utils.isHexString(value) &&
+  value.length >= 10;
+
+// First revert payload found in err, err.data, err.error.data,
+// err.error.data.originalError.data, a JSON-RPC `body`, …
+export function findRevertData(err: unknown, depth = 0): string | null {
+  if (isRevertData(err)) return err;
+  if (typeof err !== "object" || err === null || depth > MAX_DEPTH) {
+    return null;
+  }
+  const record = err as Record<string, unknown>;
+
+  for (const key of NESTED_ERROR_KEYS) {
+    const found = findRevertData(record[key], depth + 1);
+    if (found) return found;
+  }
+
+  // ethers SERVER_ERROR keeps the raw JSON-RPC response as a string
+  if (typeof record.body === "string") {
+    try {
+      return findRevertData(JSON.parse(record.body), depth + 1);
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function decodeRevertData(data: string): DecodedContractError | null {
+  const selector = data.slice(0, 10).toLowerCase();
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    try {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(
+        ["string"],
+        ethers.utils.hexDataSlice(data, 4)
+      );
+      const legacy = MERKLE_DISTRIBUTOR_REVERT_REASONS[reason];
+      return legacy
+        ? { kind: "custom", name: legacy, args: [] }
+        : { kind: "reason", reason };
+    } catch {
+      return null;
+    }
+  }
+
+  try {
+    const parsed = errorsInterface.parseError(data);
+    return {
+      kind: "custom",
+      name: parsed.name as ContractErrorName,
+      args: parsed.args,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Every message the wallet / ethers / RPC attached, outermost last
+export function errorMessageText(err: unknown): string {
+  const e = err as {
+    message?: unknown;
+    reason?: unknown;
+    error?: { message?: unknown };
+    data?: { message?: unknown };
+  } | null;
+  return [e?.error?.message, e?.data?.message, e?.reason, e?.message]
+    .filter((m): m is string => typeof m === "string" && m !== "")
+    .join(" | ");
+}
+
+// ----------------------------------------
+// Decoded revert of a failed call / send, or null when there is none
+// (wallet rejection, network error, unknown selector). Falls back to an
+// error name in the message for RPCs that drop the revert data.
+// ----------------------------------------
+export function decodeContractError(err: unknown): DecodedContractError | null {
+  const data = findRevertData(err);
+  const decoded = data ? decodeRevertData(data) : null;
+  if (decoded) return decoded;
+
+  const message = errorMessageText(err);
+  const name = CONTRACT_ERROR_NAMES.find((n) => message.includes(n));
+  return name ? { kind: "custom", name, args: [] } : null;
+}
+
+// EIP-1193 4001 / ethers ACTION_REJECTED
+export function isUserRejection(err: unknown): boolean {
+  const e = err as { code?: unknown; error?: { code?: unknown } } | null;
+  return (
+    e?.code === "ACTION_REJECTED" ||
+    e?.code === 4001 ||
+    e?.error?.code === 4001 ||
+    errorMessageText(err).toLowerCase().includes("user rejected")
+  );
+}
@@ -0,0 +1,75 @@
+import { ethers } from "ethers";
+
+// ----------------------------------------
+// Uniswap-style MerkleDistributor for leaderboard bonus rewards. Claims use
+// the proofs served by /api/rewards/[address].
+// ----------------------------------------
+
+// Empty until a distributor is deployed; the Rewards tab then shows amounts
+// but can't submit claims
+export const REWARDS_DISTRIBUTOR_ADDRESS =
+  process.env.NEXT_PUBLIC_REWARDS_DISTRIBUTOR_ADDRESS ?? "";
+
+// Custom errors (newer distributors; older ones revert with strings)
+export const MERKLE_DISTRIBUTOR_ERRORS = [
+  "AlreadyClaimed",
+  "InvalidProof",
+  "ClaimWindowFinished",
+] as const;
+export type MerkleDistributorError = (typeof MERKLE_DISTRIBUTOR_ERRORS)[number];
+
+// Revert strings of the original Uniswap distributor, by the custom error
+// that replaced them
+export const MERKLE_DISTRIBUTOR_REVERT_REASONS: Record<
+  string,
+  MerkleDistributorError | "TransferFailed"
+> = {
+  "MerkleDistributor: Drop already claimed.": "AlreadyClaimed",
+  "MerkleDistributor: Invalid proof.": "InvalidProof",
+  "MerkleDistributor: Transfer failed.": "TransferFailed",
+};
+
+export const MERKLE_DISTRIBUTOR_ABI = [
+  "function token() view returns (address)",
+  "function merkleRoot() view returns (bytes32)",
+  "function isClaimed(uint256 index) view returns (bool)",
+  "function claim(uint256 index, address account, uint256 amount, bytes32[] merkleProof)",
+
+  ...MERKLE_DISTRIBUTOR_ERRORS.map((name) => `error ${name}()`),
+
+  "event Claimed(uint256 index, address account, uint256 amount)",
+];
+
+export type RewardClaim = {
+  index: number;
+  account: string;
+  // uint256 as decimal string
+  amount: string;
+  proof: string[];
+};
+
+export function getMerkleDistributorContract(
+  signerOrProvider: ethers.Signer | ethers.providers.Provider,
+  address: string = REWARDS_DISTRIBUTOR_ADDRESS
+): ethers.Contract {
+  return new ethers.Contract(address, MERKLE_DISTRIBUTOR_ABI, signerOrProvider);
+}
+
+export async function readRewardClaimed(
+  provider: ethers.providers.Provider,
+  index: number
+): Promise<boolean> {
+  return getMerkleDistributorContract(provider).isClaimed(index);
+}
+
+export async function sendRewardClaim(
+  signer: ethers.Signer,
+  claim: RewardClaim
+): Promise<ethers.ContractTransaction> {
+  return getMerkleDistributorContract(signer).claim(
+    claim.index,
+    claim.account,
+    claim.amount,
+    claim.proof
+  );
+}
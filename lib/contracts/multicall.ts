@@ -0,0 +1,93 @@
+import { ethers } from "ethers";
+
+// ----------------------------------------
+// Multicall3: many view calls in one eth_call. Same address on Linea and
+// most other chains (https://www.multicall3.com).
+// ----------------------------------------
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const DEFAULT_MULTICALL_BATCH_SIZE = 200;
+
+const isBatchSize = (n: number) => Number.isInteger(n) && n > 0;
+
+// Calls per aggregate3 request; large batches can hit the RPC's gas or
+// response-size cap. Anything but a positive integer falls back to 200.
+export const MULTICALL_BATCH_SIZE = (() => {
+  const raw = process.env.NEXT_PUBLIC_MULTICALL_BATCH_SIZE;
+  const n = Number(raw);
+  if (raw === undefined || raw === "") return DEFAULT_MULTICALL_BATCH_SIZE;
+  if (isBatchSize(n)) return n;
+  console.warn(
+    `Invalid NEXT_PUBLIC_MULTICALL_BATCH_SIZE ${JSON.stringify(raw)}; using ${DEFAULT_MULTICALL_BATCH_SIZE}`
+  );
+  return DEFAULT_MULTICALL_BATCH_SIZE;
+})();
+
+// aggregate3 is payable on-chain; declared view so ethers eth_calls it
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)",
+];
+
+export type MulticallCall = {
+  target: string;
+  iface: ethers.utils.Interface;
+  method: string;
+  args?: unknown[];
+};
+
+export type MulticallOptions = {
+  batchSize?: number;
+  blockTag?: ethers.providers.BlockTag;
+  // Called after each batch with calls done so far
+  onProgress?: (done: number, total: number) => void;
+};
+
+// ----------------------------------------
+// Run calls in batches of batchSize; results come back decoded, in call
+// order. Throws on the first call that reverts.
+// ----------------------------------------
+export async function multicall(
+  provider: ethers.providers.Provider,
+  calls: MulticallCall[],
+  options: MulticallOptions = {}
+): Promise<ethers.utils.Result[]> {
+  const { batchSize = MULTICALL_BATCH_SIZE, blockTag, onProgress } = options;
+  if (!isBatchSize(batchSize)) {
+    throw new Error(`Invalid multicall batch size: ${batchSize}`);
+  }
+  const multicall3 = new ethers.Contract(
+    MULTICALL3_ADDRESS,
+    MULTICALL3_ABI,
+    provider
+  );
+
+  const results: ethers.utils.Result[] = [];
+  for (let i = 0; i < calls.length; i += batchSize) {
+    const batch = calls.slice(i, i + batchSize);
+    const returnData: { success: boolean; returnData: string }[] =
+      await multicall3.aggregate3(
+        batch.map((c) => ({
+          target: c.target,
+          allowFailure: true,
+          callData: c.iface.encodeFunctionData(c.method, c.args ?? []),
+        })),
+        { blockTag }
+      );
+
+    returnData.forEach((r, j) => {
+      const call = batch[j];
+      if (!r.success) {
+        throw new Error(
+          `Multicall: ${call.method}(${(call.args ?? []).join(", ")}) on ${
+            call.target
+          } reverted`
+        );
+      }
+      results.push(call.iface.decodeFunctionResult(call.method, r.returnData));
+    });
+
+    onProgress?.(Math.min(i + batchSize, calls.length), calls.length);
+  }
+
+  return results;
+}
@@ -0,0 +1,349 @@
+import { ethers } from "ethers";
+import {
+  multicall,
+  type MulticallCall,
+  type MulticallOptions,
+} from "./multicall";
+
+// ----------------------------------------
+// TbagDailyFreeBuys: address, ABI, event decoders and typed read/write
+// wrappers. Shared by the page, the API routes and the scripts so an ABI
+// change only has to be made here.
+// ----------------------------------------
+
+// Linea MAINNET TbagDailyFreeBuys contract
+export const TBAG_DAILY_BUYS_ADDRESS =
+  process.env.NEXT_PUBLIC_TBAG_DAILY_BUYS_ADDRESS ??
+  "0xcA2538De53E21128B298a80d92f67b33605FEECC";
+
+// TBAG decimals (standard)
+export const TBAG_DECIMALS = 18;
+
+// Custom errors the contract reverts with (all parameterless); decoded by
+// decodeContractError in ./errors
+export const TBAG_DAILY_BUYS_ERRORS = [
+  "NotPohVerified",
+  "NonZeroEthNotAllowed",
+  "DailyLimitReached",
+  "NoBuysToClaim",
+  "TbagPerBuyNotSet",
+  "InsufficientRewardBalance",
+  "TransferFailed",
+] as const;
+export type TbagDailyBuysError = (typeof TBAG_DAILY_BUYS_ERRORS)[number];
+
+export const TBAG_DAILY_BUYS_ABI = [
+  // Views
+  "function tbagPerBuy() view returns (uint256)",
+  "function maxBuysPerDay() view returns (uint8)",
+  "function totalBuysGlobal() view returns (uint256)",
+  "function totalBuys(address user) view returns (uint64)",
+  "function claimableBuys(address user) view returns (uint256)",
+  "function claimableTokens(address user) view returns (uint256)",
+  "function remainingBuysToday(address user) view returns (uint256)",
+
+  // Writes
+  "function buy(bytes pohSignature) payable",
+  "function claimAll() returns (uint256 buysClaimed, uint256 tokensPaid)",
+
+  // Events
+  "event Buy(address indexed user, uint64 userTotalBuys, uint32 buysInCurrentWindow)",
+  "event Claim(address indexed user, uint256 buysClaimed, uint256 tokensPaid)",
+
+  // Errors
+  ...TBAG_DAILY_BUYS_ERRORS.map((name) => `error ${name}()`),
+];
+
+export const tbagDailyBuysInterface = new ethers.utils.Interface(
+  TBAG_DAILY_BUYS_ABI
+);
+
+// Buy(address,uint64,uint32)
+export const BUY_TOPIC = tbagDailyBuysInterface.getEventTopic("Buy");
+
+// Claim(address,uint256,uint256)
+export const CLAIM_TOPIC = tbagDailyBuysInterface.getEventTopic("Claim");
+
+// ----------------------------------------
+// Event types
+// ----------------------------------------
+
+type LogPosition = {
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+};
+
+// Buy(address indexed user, uint64 userTotalBuys, uint32 buysInCurrentWindow)
+export type BuyEvent = LogPosition & {
+  wallet: string;
+  userTotalBuys: number;
+  buysInCurrentWindow: number;
+};
+
+// Claim(address indexed user, uint256 buysClaimed, uint256 tokensPaid)
+export type ClaimEvent = LogPosition & {
+  wallet: string;
+  buysClaimed: number;
+  // uint256 as decimal string (JSON-safe)
+  tokensPaid: string;
+};
+
+export type DecodedTbagLog =
+  | { type: "buy"; event: BuyEvent }
+  | { type: "claim"; event: ClaimEvent };
+
+// ----------------------------------------
+// Decoders: null for logs that aren't this event or don't decode
+// ----------------------------------------
+function parseLog(
+  log: ethers.providers.Log,
+  topic: string
+): ethers.utils.LogDescription | null {
+  if (log.topics?.[0] !== topic) return null;
+  try {
+    return tbagDailyBuysInterface.parseLog(log);
+  } catch {
+    // ignore malformed
+    return null;
+  }
+}
+
+const logPosition = (log: ethers.providers.Log): LogPosition => ({
+  blockNumber: log.blockNumber,
+  txHash: log.transactionHash,
+  logIndex: log.logIndex,
+});
+
+export function decodeBuyLog(log: ethers.providers.Log): BuyEvent | null {
+  const parsed = parseLog(log, BUY_TOPIC);
+  if (!parsed) return null;
+
+  return {
+    wallet: ethers.utils.getAddress(parsed.args.user),
+    userTotalBuys: Number(parsed.args.userTotalBuys),
+    buysInCurrentWindow: Number(parsed.args.buysInCurrentWindow),
+    ...logPosition(log),
+  };
+}
+
+export function decodeClaimLog(log: ethers.providers.Log): ClaimEvent | null {
+  const parsed = parseLog(log, CLAIM_TOPIC);
+  if (!parsed) return null;
+
+  return {
+    wallet: ethers.utils.getAddress(parsed.args.user),
+    buysClaimed: Number(parsed.args.buysClaimed),
+    tokensPaid: parsed.args.tokensPaid.toString(),
+    ...logPosition(log),
+  };
+}
+
+export function decodeTbagLog(
+  log: ethers.providers.Log
+): DecodedTbagLog | null {
+  const buy = decodeBuyLog(log);
+  if (buy) return { type: "buy", event: buy };
+
+  const claim = decodeClaimLog(log);
+  if (claim) return { type: "claim", event: claim };
+
+  return null;
+}
+
+// Decode a getLogs batch into Buy / Claim events, skipping logs the node
+// flags as removed by a reorg and anything that isn't ours
+export function decodeTbagLogs(logs: ethers.providers.Log[]): {
+  buys: BuyEvent[];
+  claims: ClaimEvent[];
+} {
+  const buys: BuyEvent[] = [];
+  const claims: ClaimEvent[] = [];
+
+  for (const log of logs) {
+    if (log.removed) continue;
+
+    const decoded = decodeTbagLog(log);
+    if (decoded?.type === "buy") buys.push(decoded.event);
+    if (decoded?.type === "claim") claims.push(decoded.event);
+  }
+
+  return { buys, claims };
+}
+
+// ----------------------------------------
+// Reads
+// ----------------------------------------
+
+export type TbagGlobalStats = {
+  tbagPerBuy: ethers.BigNumber;
+  maxBuysPerDay: number;
+  totalBuysGlobal: number;
+};
+
+export type TbagUserStats = {
+  totalBuys: number;
+  remainingBuysToday: number;
+  claimableBuys: number;
+  claimableTokens: ethers.BigNumber;
+};
+
+export function getTbagDailyBuysContract(
+  signerOrProvider: ethers.Signer | ethers.providers.Provider,
+  address: string = TBAG_DAILY_BUYS_ADDRESS
+): ethers.Contract {
+  return new ethers.Contract(address, TBAG_DAILY_BUYS_ABI, signerOrProvider);
+}
+
+export async function readTbagPerBuy(
+  provider: ethers.providers.Provider
+): Promise<ethers.BigNumber> {
+  return getTbagDailyBuysContract(provider).tbagPerBuy();
+}
+
+// Every per-user view, batched through Multicall3 with the global ones
+const GLOBAL_CALLS = ["tbagPerBuy", "maxBuysPerDay", "totalBuysGlobal"];
+const USER_CALLS = [
+  "totalBuys",
+  "remainingBuysToday",
+  "claimableBuys",
+  "claimableTokens",
+];
+
+function tbagCall(method: string, args: unknown[] = []): MulticallCall {
+  return {
+    target: TBAG_DAILY_BUYS_ADDRESS,
+    iface: tbagDailyBuysInterface,
+    method,
+    args,
+  };
+}
+
+function toGlobalStats([
+  [tbagPerBuy],
+  [maxBuysPerDay],
+  [totalBuysGlobal],
+]: ethers.utils.Result[]): TbagGlobalStats {
+  return {
+    tbagPerBuy,
+    maxBuysPerDay: Number(maxBuysPerDay),
+    totalBuysGlobal: totalBuysGlobal.toNumber(),
+  };
+}
+
+function toUserStats([
+  [totalBuys],
+  [remainingBuysToday],
+  [claimableBuys],
+  [claimableTokens],
+]: ethers.utils.Result[]): TbagUserStats {
+  return {
+    totalBuys: Number(totalBuys),
+    remainingBuysToday: remainingBuysToday.toNumber(),
+    claimableBuys: claimableBuys.toNumber(),
+    claimableTokens,
+  };
+}
+
+export async function readGlobalStats(
+  provider: ethers.providers.Provider
+): Promise<TbagGlobalStats> {
+  return toGlobalStats(
+    await multicall(provider, GLOBAL_CALLS.map((m) => tbagCall(m)))
+  );
+}
+
+export async function readUserStats(
+  provider: ethers.providers.Provider,
+  user: string
+): Promise<TbagUserStats> {
+  return toUserStats(
+    await multicall(provider, USER_CALLS.map((m) => tbagCall(m, [user])))
+  );
+}
+
+// Global + (optionally) one user's stats in a single eth_call
+export async function readStats(
+  provider: ethers.providers.Provider,
+  user?: string | null
+): Promise<{ global: TbagGlobalStats; user: TbagUserStats | null }> {
+  const results = await multicall(provider, [
+    ...GLOBAL_CALLS.map((m) => tbagCall(m)),
+    ...(user ? USER_CALLS.map((m) => tbagCall(m, [user])) : []),
+  ]);
+
+  return {
+    global: toGlobalStats(results.slice(0, GLOBAL_CALLS.length)),
+    user: user ? toUserStats(results.slice(GLOBAL_CALLS.length)) : null,
+  };
+}
+
+// ----------------------------------------
+// Bulk per-wallet reads (audit, solvency): the chosen views for every
+// wallet, batchSize calls per eth_call. Each wallet is views.length calls,
+// so a batch holds batchSize / views.length wallets.
+// ----------------------------------------
+export type TbagWalletView =
+  | "totalBuys"
+  | "claimableBuys"
+  | "claimableTokens"
+  | "remainingBuysToday";
+
+export async function readWalletViews<V extends TbagWalletView>(
+  provider: ethers.providers.Provider,
+  wallets: string[],
+  views: V[],
+  options: MulticallOptions = {}
+): Promise<Record<V, ethers.BigNumber>[]> {
+  const { onProgress, ...rest } = options;
+  const results = await multicall(
+    provider,
+    wallets.flatMap((wallet) => views.map((v) => tbagCall(v, [wallet]))),
+    {
+      ...rest,
+      // Report progress in wallets, not calls
+      onProgress: onProgress
+        ? (done, total) =>
+            onProgress(
+              Math.floor(done / views.length),
+              Math.floor(total / views.length)
+            )
+        : undefined,
+    }
+  );
+
+  return wallets.map((_, i) => {
+    const row = {} as Record<V, ethers.BigNumber>;
+    views.forEach((v, j) => {
+      row[v] = ethers.BigNumber.from(results[i * views.length + j][0]);
+    });
+    return row;
+  });
+}
+
+// ----------------------------------------
+// Writes
+// ----------------------------------------
+
+// Gas-only buy (msg.value must be 0)
+export async function sendBuy(
+  signer: ethers.Signer,
+  pohSignature: string
+): Promise<ethers.ContractTransaction> {
+  return getTbagDailyBuysContract(signer).buy(pohSignature, { value: 0 });
+}
+
+// callStatic preview of what claimAll would pay out right now
+export async function previewClaimAll(
+  signer: ethers.Signer
+): Promise<{ buysClaimed: number; tokensPaid: ethers.BigNumber }> {
+  const [buysClaimed, tokensPaid] =
+    await getTbagDailyBuysContract(signer).callStatic.claimAll();
+  return { buysClaimed: buysClaimed.toNumber(), tokensPaid };
+}
+
+export async function sendClaimAll(
+  signer: ethers.Signer
+): Promise<ethers.ContractTransaction> {
+  return getTbagDailyBuysContract(signer).claimAll();
+}
@@ -0,0 +1,33 @@
+import { ethers } from "ethers";
+
+// ----------------------------------------
+// TBAG ERC-20: just enough to read what the TbagDailyFreeBuys contract
+// holds to pay out claims
+// ----------------------------------------
+
+// Linea MAINNET TBAG token (no default: must be configured)
+export const TBAG_TOKEN_ADDRESS =
+  process.env.NEXT_PUBLIC_TBAG_TOKEN_ADDRESS ?? "";
+
+export const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+];
+
+export function getTbagTokenContract(
+  provider: ethers.providers.Provider,
+  address: string = TBAG_TOKEN_ADDRESS
+): ethers.Contract {
+  if (!address) {
+    throw new Error("NEXT_PUBLIC_TBAG_TOKEN_ADDRESS is not set");
+  }
+  return new ethers.Contract(address, ERC20_ABI, provider);
+}
+
+export async function readTbagBalance(
+  provider: ethers.providers.Provider,
+  owner: string,
+  blockTag?: ethers.providers.BlockTag
+): Promise<ethers.BigNumber> {
+  return getTbagTokenContract(provider).balanceOf(owner, { blockTag });
+}
@@ -0,0 +1,97 @@
+// ----------------------------------------
+// EIP-6963 wallet discovery: every installed extension announces itself
+// instead of racing for window.ethereum. Browser-only.
+// ----------------------------------------
+
+// Minimal EIP-1193 surface the page uses
+export type Eip1193Provider = {
+  request(args: {
+    method: string;
+    params?: unknown[] | Record<string, unknown>;
+  }): Promise<unknown>;
+  // Listener args depend on the event (accounts[], chainId, …)
+  on?(event: string, listener: (...args: never[]) => void): void;
+  removeListener?(event: string, listener: (...args: never[]) => void): void;
+};
+
+export type WalletInfo = {
+  uuid: string;
+  name: string;
+  // data: URI
+  icon: string;
+  // Reverse-DNS id, stable across page loads (uuid is not)
+  rdns: string;
+};
+
+export type DiscoveredWallet = {
+  info: WalletInfo;
+  provider: Eip1193Provider;
+};
+
+// Wallets that only inject window.ethereum (no EIP-6963 support)
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+const LEGACY_WALLET_INFO: WalletInfo = {
+  uuid: "legacy-injected",
+  name: "Browser Wallet",
+  icon: "",
+  rdns: "injected",
+};
+
+// ----------------------------------------
+// Discovery: onChange gets the full list every time a wallet announces.
+// Falls back to window.ethereum when nothing has announced. Returns an
+// unsubscribe function.
+// ----------------------------------------
+export function discoverWallets(
+  onChange: (wallets: DiscoveredWallet[]) => void
+): () => void {
+  const byUuid = new Map<string, DiscoveredWallet>();
+
+  const handleAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<DiscoveredWallet>).detail;
+    if (!detail?.info?.uuid || !detail.provider) return;
+    byUuid.set(detail.info.uuid, detail);
+    onChange(Array.from(byUuid.values()));
+  };
+
+  window.addEventListener("eip6963:announceProvider", handleAnnounce);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+  // Announcements are synchronous, so an empty map means no 6963 wallets
+  if (byUuid.size === 0 && window.ethereum) {
+    onChange([{ info: LEGACY_WALLET_INFO, provider: window.ethereum }]);
+  }
+
+  return () =>
+    window.removeEventListener("eip6963:announceProvider", handleAnnounce);
+}
+
+// ----------------------------------------
+// Remembered choice (by rdns)
+// ----------------------------------------
+const PREFERRED_WALLET_KEY = "tbag:preferred-wallet";
+
+export function loadPreferredWallet(): string | null {
+  try {
+    return window.localStorage.getItem(PREFERRED_WALLET_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePreferredWallet(rdns: string | null) {
+  try {
+    if (rdns) {
+      window.localStorage.setItem(PREFERRED_WALLET_KEY, rdns);
+    } else {
+      window.localStorage.removeItem(PREFERRED_WALLET_KEY);
+    }
+  } catch {
+    // Storage disabled (private mode etc.): just don't remember
+  }
+}
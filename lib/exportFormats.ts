@@ -0,0 +1,308 @@
+// ----------------------------------------
+// Export serializers: RFC 4180 CSV, JSON, NDJSON and Markdown, driven by
+// a column schema so every format carries the same fields
+// ----------------------------------------
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson", "markdown"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  ndjson: "ndjson",
+  markdown: "md",
+};
+
+export type ExportColumn<T> = {
+  key: string;
+  description: string;
+  value: (row: T) => string | number;
+};
+
+export type ExportMetadata = {
+  contract: string;
+  fromBlock: number;
+  toBlock: number;
+  // ISO 8601
+  generatedAt: string;
+  rowCount: number;
+};
+
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  if (value === null || value === "") return "csv";
+  if (value === "md") return "markdown";
+  return (EXPORT_FORMATS as readonly string[]).includes(value)
+    ? (value as ExportFormat)
+    : null;
+}
+
+// ----------------------------------------
+// Per-format writers
+// ----------------------------------------
+
+// RFC 4180: quote fields containing comma, quote, CR or LF; double quotes
+function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function markdownCell(value: string | number): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function toObject<T>(
+  row: T,
+  columns: ExportColumn<T>[]
+): Record<string, string | number> {
+  return Object.fromEntries(columns.map((c) => [c.key, c.value(row)]));
+}
+
+function formatCsv<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  metadata: ExportMetadata | null
+): string {
+  const lines: string[] = [];
+
+  // Not part of RFC 4180: strict parsers need the file without --meta
+  if (metadata) {
+    for (const [key, value] of Object.entries(metadata)) {
+      lines.push(`# ${key}: ${value}`);
+    }
+  }
+
+  lines.push(columns.map((c) => csvField(c.key)).join(","));
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvField(c.value(row))).join(","));
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+function formatJson<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  metadata: ExportMetadata | null
+): string {
+  const body = {
+    ...(metadata ? { metadata } : {}),
+    rows: rows.map((row) => toObject(row, columns)),
+  };
+  return JSON.stringify(body, null, 2) + "\n";
+}
+
+function formatNdjson<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  metadata: ExportMetadata | null
+): string {
+  const lines = rows.map((row) => JSON.stringify(toObject(row, columns)));
+  if (metadata) lines.unshift(JSON.stringify({ metadata }));
+  return lines.map((line) => line + "\n").join("");
+}
+
+function formatMarkdown<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  metadata: ExportMetadata | null
+): string {
+  const lines: string[] = [];
+
+  if (metadata) {
+    lines.push(
+      `Contract \`${metadata.contract}\`, blocks ${metadata.fromBlock}–${metadata.toBlock}, ${metadata.rowCount} rows, generated ${metadata.generatedAt}`,
+      ""
+    );
+  }
+
+  lines.push(`| ${columns.map((c) => markdownCell(c.key)).join(" | ")} |`);
+  lines.push(`| ${columns.map(() => "---").join(" | ")} |`);
+  for (const row of rows) {
+    lines.push(
+      `| ${columns.map((c) => markdownCell(c.value(row))).join(" | ")} |`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function formatExport<T>(
+  format: ExportFormat,
+  rows: T[],
+  columns: ExportColumn<T>[],
+  metadata: ExportMetadata | null = null
+): string {
+  switch (format) {
+    case "csv":
+      return formatCsv(rows, columns, metadata);
+    case "json":
+      return formatJson(rows, columns, metadata);
+    case "ndjson":
+      return formatNdjson(rows, columns, metadata);
+    case "markdown":
+      return formatMarkdown(rows, columns, metadata);
+  }
+}
+
+// ----------------------------------------
+// Reading CSV back: RFC 4180 records (quoted fields may contain commas,
+// quotes and line breaks); leading "# key: value" metadata lines from
+// --meta are skipped
+// ----------------------------------------
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let atRecordStart = true;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (!(record.length === 1 && record[0] === "")) records.push(record);
+    record = [];
+    field = "";
+    atRecordStart = true;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+      } else if (ch === '"') {
+        quoted = false;
+        i++;
+      } else {
+        field += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (atRecordStart && records.length === 0 && ch === "#") {
+      const eol = text.indexOf("\n", i);
+      i = eol === -1 ? text.length : eol + 1;
+      continue;
+    }
+    atRecordStart = false;
+
+    if (ch === '"' && field === "") {
+      quoted = true;
+      i++;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+      i++;
+    } else if (ch === "\r" && text[i + 1] === "\n") {
+      endRecord();
+      i += 2;
+    } else if (ch === "\n") {
+      endRecord();
+      i++;
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+
+  if (quoted) throw new Error("Unterminated quoted field in CSV");
+  if (field !== "" || record.length > 0) endRecord();
+
+  return records;
+}
+
+// ----------------------------------------
+// Schema: per-wallet totals written by the CLI `export` command
+// ----------------------------------------
+export type WalletTotals = {
+  wallet: string;
+  totalBuys: number;
+  totalClaimTxs: number;
+  totalBuysClaimed: number;
+  totalTokensClaimedRaw: string;
+  totalTokensClaimed: string;
+};
+
+export const WALLET_TOTALS_COLUMNS: ExportColumn<WalletTotals>[] = [
+  {
+    key: "wallet",
+    description: "Checksummed wallet address",
+    value: (r) => r.wallet,
+  },
+  {
+    key: "totalBuys",
+    description: "Buy events in range",
+    value: (r) => r.totalBuys,
+  },
+  {
+    key: "totalClaimTxs",
+    description: "Claim events (transactions) in range",
+    value: (r) => r.totalClaimTxs,
+  },
+  {
+    key: "totalBuysClaimed",
+    description: "Sum of Claim.buysClaimed",
+    value: (r) => r.totalBuysClaimed,
+  },
+  {
+    key: "totalTokensClaimed_raw",
+    description: "Sum of Claim.tokensPaid in wei (decimal string)",
+    value: (r) => r.totalTokensClaimedRaw,
+  },
+  {
+    key: "totalTokensClaimed_TBAG",
+    description: "Same amount formatted with 18 decimals",
+    value: (r) => r.totalTokensClaimed,
+  },
+];
+
+// Parse a CSV written with WALLET_TOTALS_COLUMNS (by `export`, `snapshot` or
+// the old export script); columns are matched by header name
+export function parseWalletTotalsCsv(text: string): WalletTotals[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+
+  const index = (key: string): number => {
+    const i = header.indexOf(key);
+    if (i === -1) throw new Error(`CSV is missing the ${key} column`);
+    return i;
+  };
+  const col = {
+    wallet: index("wallet"),
+    totalBuys: index("totalBuys"),
+    totalClaimTxs: index("totalClaimTxs"),
+    totalBuysClaimed: index("totalBuysClaimed"),
+    tokensRaw: index("totalTokensClaimed_raw"),
+    tokens: index("totalTokensClaimed_TBAG"),
+  };
+
+  const int = (value: string, line: number): number => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`Invalid number "${value}" on CSV row ${line}`);
+    }
+    return n;
+  };
+
+  return records.map((r, i): WalletTotals => {
+    const line = i + 2;
+    if (!/^0x[0-9a-fA-F]{40}$/.test(r[col.wallet] ?? "")) {
+      throw new Error(`Invalid wallet "${r[col.wallet]}" on CSV row ${line}`);
+    }
+    if (!/^\d+$/.test(r[col.tokensRaw] ?? "")) {
+      throw new Error(`Invalid token amount on CSV row ${line}`);
+    }
+
+    return {
+      wallet: r[col.wallet],
+      totalBuys: int(r[col.totalBuys], line),
+      totalClaimTxs: int(r[col.totalClaimTxs], line),
+      totalBuysClaimed: int(r[col.totalBuysClaimed], line),
+      totalTokensClaimedRaw: r[col.tokensRaw],
+      totalTokensClaimed: r[col.tokens],
+    };
+  });
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { INDEXER_DATA_DIR, LEADERBOARD_FROM_BLOCK } from "../config";
+import { TBAG_DAILY_BUYS_ADDRESS } from "../contracts/tbagDailyFreeBuys";
+
+// ----------------------------------------
+// Deployment-block cache: lowercased address -> first block with code.
+// Persisted next to the index; a deployment block never changes.
+// ----------------------------------------
+const DEPLOY_BLOCKS_FILE = path.join(INDEXER_DATA_DIR, "deploy-blocks.json");
+
+let memoryDeployBlocks: Record<string, number> | null = null;
+const inflightLookups = new Map<string, Promise<number>>();
+
+async function loadDeployBlockCache(): Promise<Record<string, number>> {
+  if (memoryDeployBlocks) return memoryDeployBlocks;
+
+  try {
+    memoryDeployBlocks = JSON.parse(
+      await fs.readFile(DEPLOY_BLOCKS_FILE, "utf8")
+    );
+  } catch {
+    memoryDeployBlocks = {};
+  }
+  return memoryDeployBlocks as Record<string, number>;
+}
+
+async function saveDeployBlockCache(cache: Record<string, number>) {
+  const tmp = `${DEPLOY_BLOCKS_FILE}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(DEPLOY_BLOCKS_FILE), { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(cache, null, 2), "utf8");
+  await fs.rename(tmp, DEPLOY_BLOCKS_FILE);
+}
+
+const hasCode = async (
+  provider: ethers.providers.Provider,
+  address: string,
+  blockTag: number
+) => (await provider.getCode(address, blockTag)) !== "0x";
+
+// ----------------------------------------
+// Binary search for the first block where `address` has code.
+// Needs an RPC that serves historical state (archive node).
+// ----------------------------------------
+export async function findDeploymentBlock(
+  provider: ethers.providers.Provider,
+  address: string
+): Promise<number> {
+  const head = await provider.getBlockNumber();
+  if (!(await hasCode(provider, address, head))) {
+    throw new Error(`No contract code at ${address} (block ${head})`);
+  }
+
+  // Invariant: no code before `left`, code at `right`
+  let left = 0;
+  let right = head;
+
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (await hasCode(provider, address, mid)) {
+      right = mid;
+    } else {
+      left = mid + 1;
+    }
+  }
+
+  return left;
+}
+
+// Cached findDeploymentBlock (memory + $INDEXER_DATA_DIR/deploy-blocks.json)
+export async function getDeploymentBlock(
+  provider: ethers.providers.Provider,
+  address: string = TBAG_DAILY_BUYS_ADDRESS
+): Promise<number> {
+  const key = address.toLowerCase();
+  const cache = await loadDeployBlockCache();
+  if (cache[key] !== undefined) return cache[key];
+
+  let lookup = inflightLookups.get(key);
+  if (!lookup) {
+    lookup = (async () => {
+      console.log(`Looking up deployment block of ${address}...`);
+      const block = await findDeploymentBlock(provider, address);
+      console.log(`${address} was deployed at block ${block}`);
+
+      cache[key] = block;
+      await saveDeployBlockCache(cache);
+      return block;
+    })().finally(() => {
+      inflightLookups.delete(key);
+    });
+    inflightLookups.set(key, lookup);
+  }
+  return lookup;
+}
+
+// ----------------------------------------
+// First block every scanner starts from: LEADERBOARD_FROM_BLOCK when set,
+// otherwise the contract's deployment block
+// ----------------------------------------
+export async function getScanStartBlock(
+  provider: ethers.providers.Provider,
+  address: string = TBAG_DAILY_BUYS_ADDRESS
+): Promise<number> {
+  if (LEADERBOARD_FROM_BLOCK !== null) return LEADERBOARD_FROM_BLOCK;
+  return getDeploymentBlock(provider, address);
+}
@@ -0,0 +1,148 @@
+import { ethers } from "ethers";
+import { rpcErrorCode } from "../rpc";
+
+// ----------------------------------------
+// Helper: recursively fetch logs, splitting when RPC says >10000 results
+// ----------------------------------------
+export async function fetchLogsRecursive(
+  provider: ethers.providers.Provider,
+  address: string,
+  topics: Array<string | string[]>,
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.providers.Log[]> {
+  if (fromBlock > toBlock) return [];
+
+  try {
+    const logs = await provider.getLogs({
+      address,
+      fromBlock,
+      toBlock,
+      topics,
+    });
+    return logs;
+  } catch (err: unknown) {
+    const code = rpcErrorCode(err);
+    // Linea RPC: -32005 "query returned more than 10000 results"
+    if (code === -32005 && fromBlock < toBlock) {
+      const mid = Math.floor((fromBlock + toBlock) / 2);
+      console.warn(
+        `getLogs too large, splitting range ${fromBlock}–${toBlock} into ${fromBlock}–${mid} and ${
+          mid + 1
+        }–${toBlock}`
+      );
+
+      const [left, right] = await Promise.all([
+        fetchLogsRecursive(provider, address, topics, fromBlock, mid),
+        fetchLogsRecursive(provider, address, topics, mid + 1, toBlock),
+      ]);
+
+      return [...left, ...right];
+    }
+
+    console.error(
+      `getLogs failed for range ${fromBlock}–${toBlock}:`,
+      (err as Error)?.message || err
+    );
+    throw err;
+  }
+}
+
+// ----------------------------------------
+// Adaptive scan: walk [fromBlock, toBlock] in chunks, halving the chunk on
+// -32005 or when a chunk returns more than targetLogs, doubling it when a
+// chunk returns under a quarter of that. A -32005 caps growth at the size
+// that worked; the cap doubles again after ceilingRecoveryChunks chunks in
+// a row succeed, so one busy range doesn't slow the rest of a backfill.
+// onChunk runs after every chunk, so callers can checkpoint progress.
+// ----------------------------------------
+export type AdaptiveScanOptions = {
+  initialChunkSize?: number;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  targetLogs?: number;
+  ceilingRecoveryChunks?: number;
+};
+
+export type LogChunk = {
+  fromBlock: number;
+  toBlock: number;
+  logs: ethers.providers.Log[];
+  // Chunk size the next request will use
+  nextChunkSize: number;
+};
+
+export async function scanLogsAdaptive(
+  provider: ethers.providers.Provider,
+  address: string,
+  topics: Array<string | string[]>,
+  fromBlock: number,
+  toBlock: number,
+  onChunk: (chunk: LogChunk) => Promise<void> | void,
+  options: AdaptiveScanOptions = {}
+): Promise<void> {
+  const {
+    initialChunkSize = 5_000,
+    minChunkSize = 1,
+    maxChunkSize = 200_000,
+    targetLogs = 2_000,
+    ceilingRecoveryChunks = 10,
+  } = options;
+
+  let chunkSize = Math.min(
+    Math.max(initialChunkSize, minChunkSize),
+    maxChunkSize
+  );
+  let ceiling = maxChunkSize;
+  // Chunks fetched without -32005 since the ceiling last moved
+  let chunksSinceCeiling = 0;
+  let cursor = fromBlock;
+
+  while (cursor <= toBlock) {
+    const end = Math.min(cursor + chunkSize - 1, toBlock);
+
+    let logs: ethers.providers.Log[];
+    try {
+      logs = await provider.getLogs({
+        address,
+        fromBlock: cursor,
+        toBlock: end,
+        topics,
+      });
+    } catch (err: unknown) {
+      // Linea RPC: -32005 "query returned more than 10000 results"
+      if (rpcErrorCode(err) === -32005 && chunkSize > minChunkSize) {
+        chunkSize = Math.max(minChunkSize, Math.floor(chunkSize / 2));
+        ceiling = chunkSize;
+        chunksSinceCeiling = 0;
+        console.warn(
+          `getLogs too large for ${cursor}–${end}; retrying with ${chunkSize} blocks`
+        );
+        continue;
+      }
+      throw err;
+    }
+
+    if (
+      ceiling < maxChunkSize &&
+      ++chunksSinceCeiling >= ceilingRecoveryChunks
+    ) {
+      ceiling = Math.min(maxChunkSize, ceiling * 2);
+      chunksSinceCeiling = 0;
+    }
+
+    if (logs.length > targetLogs) {
+      chunkSize = Math.max(minChunkSize, Math.floor(chunkSize / 2));
+    } else if (logs.length < targetLogs / 4) {
+      chunkSize = Math.min(ceiling, chunkSize * 2);
+    }
+
+    await onChunk({
+      fromBlock: cursor,
+      toBlock: end,
+      logs,
+      nextChunkSize: chunkSize,
+    });
+    cursor = end + 1;
+  }
+}
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { INDEXER_DATA_DIR } from "../config";
+import type { IndexState } from "./types";
+
+// Bump when the persisted shape changes; older files are rebuilt from scratch
+export const INDEX_STATE_VERSION = 2;
+
+export function indexFilePath(contract: string): string {
+  return path.join(INDEXER_DATA_DIR, `index-${contract.toLowerCase()}.json`);
+}
+
+export function emptyIndexState(contract: string, fromBlock: number): IndexState {
+  return {
+    version: INDEX_STATE_VERSION,
+    contract: contract.toLowerCase(),
+    fromBlock,
+    lastIndexedBlock: fromBlock - 1,
+    checkpoints: [],
+    buys: [],
+    claims: [],
+  };
+}
+
+// ----------------------------------------
+// Load: returns null when there is no usable checkpoint on disk
+// ----------------------------------------
+export async function loadIndexState(
+  contract: string
+): Promise<IndexState | null> {
+  const file = indexFilePath(contract);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (err: unknown) {
+    if ((err as { code?: string })?.code === "ENOENT") return null;
+    throw err;
+  }
+
+  try {
+    const state = JSON.parse(raw) as IndexState;
+    if (state.version !== INDEX_STATE_VERSION) {
+      console.warn(
+        `Index file ${file} has version ${state.version}, expected ${INDEX_STATE_VERSION}; rebuilding`
+      );
+      return null;
+    }
+    return state;
+  } catch {
+    console.warn(`Index file ${file} is corrupt; rebuilding`);
+    return null;
+  }
+}
+
+// ----------------------------------------
+// Save: write to a temp file and rename so a crash never leaves half a file
+// ----------------------------------------
+export async function saveIndexState(state: IndexState): Promise<void> {
+  const file = indexFilePath(state.contract);
+  const tmp = `${file}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(state), "utf8");
+  await fs.rename(tmp, file);
+}
@@ -0,0 +1,172 @@
+import { ethers } from "ethers";
+import { INDEXER_CONFIRMATIONS, INDEXER_MAX_CHECKPOINTS } from "../config";
+import {
+  BUY_TOPIC,
+  CLAIM_TOPIC,
+  TBAG_DAILY_BUYS_ADDRESS,
+  decodeTbagLogs,
+} from "../contracts/tbagDailyFreeBuys";
+import { getLineaProvider } from "../rpc";
+import { getScanStartBlock } from "./deployBlock";
+import { fetchLogsRecursive } from "./logs";
+import { emptyIndexState, loadIndexState, saveIndexState } from "./store";
+import type { IndexState } from "./types";
+
+// ----------------------------------------
+// In-memory copy of the store (per server instance) + in-flight sync
+// ----------------------------------------
+let memoryState: IndexState | null = null;
+let inflightSync: Promise<IndexState> | null = null;
+
+// ----------------------------------------
+// Load checkpoint, discarding it if it was built for another contract/range
+// ----------------------------------------
+async function loadOrCreateState(
+  provider: ethers.providers.Provider
+): Promise<IndexState> {
+  const contract = TBAG_DAILY_BUYS_ADDRESS.toLowerCase();
+  const fromBlock = await getScanStartBlock(provider);
+
+  const stored = memoryState ?? (await loadIndexState(contract));
+  if (
+    stored &&
+    stored.contract === contract &&
+    stored.fromBlock === fromBlock
+  ) {
+    return stored;
+  }
+
+  if (stored) {
+    console.warn(
+      `Index checkpoint does not match config (contract/fromBlock changed); rebuilding`
+    );
+  }
+  return emptyIndexState(contract, fromBlock);
+}
+
+// ----------------------------------------
+// Reorg handling: find the newest checkpoint still on the canonical chain
+// and drop everything indexed after it
+// ----------------------------------------
+async function getBlockHash(
+  provider: ethers.providers.Provider,
+  blockNumber: number
+): Promise<string | null> {
+  const block = await provider.getBlock(blockNumber);
+  return block?.hash ?? null;
+}
+
+export function rollbackIndexState(
+  state: IndexState,
+  toBlock: number
+): IndexState {
+  return {
+    ...state,
+    lastIndexedBlock: toBlock,
+    checkpoints: state.checkpoints.filter((c) => c.blockNumber <= toBlock),
+    buys: state.buys.filter((e) => e.blockNumber <= toBlock),
+    claims: state.claims.filter((e) => e.blockNumber <= toBlock),
+  };
+}
+
+async function reconcileReorgs(
+  provider: ethers.providers.Provider,
+  state: IndexState
+): Promise<IndexState> {
+  const { checkpoints } = state;
+  if (checkpoints.length === 0) return state;
+
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const checkpoint = checkpoints[i];
+    const onChainHash = await getBlockHash(provider, checkpoint.blockNumber);
+
+    if (onChainHash === checkpoint.blockHash) {
+      if (i === checkpoints.length - 1) return state;
+
+      console.warn(
+        `Reorg detected: rolling index back from block ${state.lastIndexedBlock} to ${checkpoint.blockNumber}`
+      );
+      return rollbackIndexState(state, checkpoint.blockNumber);
+    }
+  }
+
+  console.warn(
+    `Reorg deeper than all ${checkpoints.length} stored checkpoints; rebuilding index`
+  );
+  return emptyIndexState(state.contract, state.fromBlock);
+}
+
+async function runSync(): Promise<IndexState> {
+  const provider = getLineaProvider();
+  const [stored, headBlock] = await Promise.all([
+    loadOrCreateState(provider),
+    provider.getBlockNumber(),
+  ]);
+
+  const state = await reconcileReorgs(provider, stored);
+
+  // Only index blocks with enough confirmations
+  const toBlock = headBlock - INDEXER_CONFIRMATIONS;
+  const fromBlock = state.lastIndexedBlock + 1;
+  if (fromBlock > toBlock) {
+    if (state !== stored) await saveIndexState(state);
+    memoryState = state;
+    return state;
+  }
+
+  console.log(
+    `Indexing ${TBAG_DAILY_BUYS_ADDRESS} Buy/Claim logs, blocks ${fromBlock}–${toBlock} (head ${headBlock}, ${INDEXER_CONFIRMATIONS} confirmations)`
+  );
+
+  const toBlockHash = await getBlockHash(provider, toBlock);
+  const logs = await fetchLogsRecursive(
+    provider,
+    TBAG_DAILY_BUYS_ADDRESS,
+    [[BUY_TOPIC, CLAIM_TOPIC]],
+    fromBlock,
+    toBlock
+  );
+
+  // If the range end changed while we were reading, the logs may mix forks
+  const toBlockHashAfter = await getBlockHash(provider, toBlock);
+  if (!toBlockHash || toBlockHash !== toBlockHashAfter) {
+    throw new Error(
+      `Block ${toBlock} changed while indexing (reorg in progress); retry later`
+    );
+  }
+
+  const { buys, claims } = decodeTbagLogs(logs);
+
+  const next: IndexState = {
+    ...state,
+    lastIndexedBlock: toBlock,
+    checkpoints: state.checkpoints
+      .concat({ blockNumber: toBlock, blockHash: toBlockHash })
+      .slice(-INDEXER_MAX_CHECKPOINTS),
+    buys: state.buys.concat(buys),
+    claims: state.claims.concat(claims),
+  };
+
+  await saveIndexState(next);
+  memoryState = next;
+
+  console.log(
+    `Indexed ${buys.length} buys and ${claims.length} claims (totals: ${next.buys.length} buys, ${next.claims.length} claims)`
+  );
+
+  return next;
+}
+
+// ----------------------------------------
+// Public: bring the index up to (head - confirmations), fetching only new
+// blocks and rolling back anything orphaned by a reorg first.
+// Concurrent callers share one in-flight sync.
+// ----------------------------------------
+export function syncIndex(): Promise<IndexState> {
+  if (!inflightSync) {
+    inflightSync = runSync().finally(() => {
+      inflightSync = null;
+    });
+  }
+  return inflightSync;
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { INDEXER_DATA_DIR } from "../config";
+
+// ----------------------------------------
+// Block timestamp cache: block number -> unix seconds, persisted next to
+// the index so each block header is only fetched once
+// ----------------------------------------
+const TIMESTAMPS_FILE = path.join(INDEXER_DATA_DIR, "block-timestamps.json");
+
+// Parallel getBlock calls per batch
+const TIMESTAMP_FETCH_CONCURRENCY = 10;
+
+let memoryTimestamps: Record<string, number> | null = null;
+
+async function loadTimestampCache(): Promise<Record<string, number>> {
+  if (memoryTimestamps) return memoryTimestamps;
+
+  try {
+    memoryTimestamps = JSON.parse(await fs.readFile(TIMESTAMPS_FILE, "utf8"));
+  } catch {
+    memoryTimestamps = {};
+  }
+  return memoryTimestamps as Record<string, number>;
+}
+
+async function saveTimestampCache(cache: Record<string, number>) {
+  const tmp = `${TIMESTAMPS_FILE}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(TIMESTAMPS_FILE), { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(cache), "utf8");
+  await fs.rename(tmp, TIMESTAMPS_FILE);
+}
+
+// Fills cache in place; true when anything was fetched (cache is dirty)
+async function fetchMissingTimestamps(
+  provider: ethers.providers.Provider,
+  cache: Record<string, number>,
+  blockNumbers: number[]
+): Promise<boolean> {
+  const missing = Array.from(new Set(blockNumbers)).filter(
+    (n) => cache[n] === undefined
+  );
+
+  for (let i = 0; i < missing.length; i += TIMESTAMP_FETCH_CONCURRENCY) {
+    const batch = missing.slice(i, i + TIMESTAMP_FETCH_CONCURRENCY);
+    const blocks = await Promise.all(batch.map((n) => provider.getBlock(n)));
+    blocks.forEach((block, j) => {
+      if (block) cache[batch[j]] = block.timestamp;
+    });
+  }
+
+  return missing.length > 0;
+}
+
+export async function getBlockTimestamps(
+  provider: ethers.providers.Provider,
+  blockNumbers: number[]
+): Promise<Map<number, number>> {
+  const cache = await loadTimestampCache();
+
+  if (await fetchMissingTimestamps(provider, cache, blockNumbers)) {
+    await saveTimestampCache(cache);
+  }
+
+  return new Map(blockNumbers.map((n) => [n, cache[n]]));
+}
+
+// ----------------------------------------
+// Binary search for the first block in [lo, hi] with timestamp >= ts.
+// Returns hi + 1 when every block in range is older than ts. The cache
+// file is written once at the end, not once per step.
+// ----------------------------------------
+export async function findFirstBlockAtOrAfter(
+  provider: ethers.providers.Provider,
+  ts: number,
+  lo: number,
+  hi: number
+): Promise<number> {
+  const cache = await loadTimestampCache();
+  let dirty = false;
+  let left = lo;
+  let right = hi + 1;
+
+  try {
+    while (left < right) {
+      const mid = Math.floor((left + right) / 2);
+      if (await fetchMissingTimestamps(provider, cache, [mid])) dirty = true;
+      const midTs = cache[mid];
+      if (midTs === undefined) {
+        throw new Error(
+          `Block ${mid} not found while resolving timestamp ${ts}`
+        );
+      }
+
+      if (midTs >= ts) {
+        right = mid;
+      } else {
+        left = mid + 1;
+      }
+    }
+  } finally {
+    // Keep what was fetched even when the search fails part-way
+    if (dirty) await saveTimestampCache(cache);
+  }
+
+  return left;
+}
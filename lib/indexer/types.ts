@@ -0,0 +1,28 @@
+import type {
+  BuyEvent,
+  ClaimEvent,
+} from "../contracts/tbagDailyFreeBuys";
+
+// ----------------------------------------
+// Persisted index shape (events are decoded by the contract module)
+// ----------------------------------------
+
+export type { BuyEvent, ClaimEvent };
+
+// Hash of the last block of an indexed range, used to detect reorgs
+export type BlockCheckpoint = {
+  blockNumber: number;
+  blockHash: string;
+};
+
+export type IndexState = {
+  version: number;
+  contract: string;
+  fromBlock: number;
+  // Last block whose logs are fully stored (fromBlock - 1 when empty)
+  lastIndexedBlock: number;
+  // Oldest first; the last entry is always lastIndexedBlock
+  checkpoints: BlockCheckpoint[];
+  buys: BuyEvent[];
+  claims: ClaimEvent[];
+};
@@ -0,0 +1,206 @@
+import { ethers } from "ethers";
+import { TBAG_DECIMALS } from "./contracts/tbagDailyFreeBuys";
+import type { IndexState } from "./indexer/types";
+import type { ResolvedWindow } from "./windows";
+
+// ----------------------------------------
+// Types
+// ----------------------------------------
+
+export const LEADERBOARD_SORTS = ["buys", "claimed", "unclaimed"] as const;
+export type LeaderboardSort = (typeof LEADERBOARD_SORTS)[number];
+
+export type LeaderboardRow = {
+  wallet: string;
+  totalBuys: number;
+  totalClaimTxs: number;
+  totalBuysClaimed: number;
+  // TBAG claimed: raw uint256 string + formatted units
+  totalTokensClaimedRaw: string;
+  totalTokensClaimed: string;
+  // Buys recorded but not yet claimed (+ TBAG value at current tbagPerBuy)
+  unclaimedBuys: number;
+  unclaimedTokensRaw: string;
+  unclaimedTokens: string;
+};
+
+export function parseLeaderboardSort(
+  value: string | null
+): LeaderboardSort | null {
+  if (!value) return "buys";
+  return (LEADERBOARD_SORTS as readonly string[]).includes(value)
+    ? (value as LeaderboardSort)
+    : null;
+}
+
+// ----------------------------------------
+// Aggregate indexed events into one row per wallet (unsorted)
+// ----------------------------------------
+export function aggregateWallets(
+  state: Pick<IndexState, "buys" | "claims">,
+  tbagPerBuy: ethers.BigNumber
+): LeaderboardRow[] {
+  const buyCounts = new Map<string, number>();
+  const claimTxCounts = new Map<string, number>();
+  const buysClaimedCounts = new Map<string, number>();
+  const tokensClaimed = new Map<string, ethers.BigNumber>();
+
+  for (const buy of state.buys) {
+    buyCounts.set(buy.wallet, (buyCounts.get(buy.wallet) ?? 0) + 1);
+  }
+
+  for (const claim of state.claims) {
+    const w = claim.wallet;
+    claimTxCounts.set(w, (claimTxCounts.get(w) ?? 0) + 1);
+    buysClaimedCounts.set(w, (buysClaimedCounts.get(w) ?? 0) + claim.buysClaimed);
+    tokensClaimed.set(
+      w,
+      (tokensClaimed.get(w) ?? ethers.BigNumber.from(0)).add(claim.tokensPaid)
+    );
+  }
+
+  const allWallets = new Set([...buyCounts.keys(), ...claimTxCounts.keys()]);
+
+  return Array.from(allWallets).map((wallet): LeaderboardRow => {
+    const totalBuys = buyCounts.get(wallet) ?? 0;
+    const totalBuysClaimed = buysClaimedCounts.get(wallet) ?? 0;
+    const tokensBn = tokensClaimed.get(wallet) ?? ethers.BigNumber.from(0);
+    const unclaimedBuys = Math.max(0, totalBuys - totalBuysClaimed);
+    const unclaimedBn = tbagPerBuy.mul(unclaimedBuys);
+
+    return {
+      wallet,
+      totalBuys,
+      totalClaimTxs: claimTxCounts.get(wallet) ?? 0,
+      totalBuysClaimed,
+      totalTokensClaimedRaw: tokensBn.toString(),
+      totalTokensClaimed: ethers.utils.formatUnits(tokensBn, TBAG_DECIMALS),
+      unclaimedBuys,
+      unclaimedTokensRaw: unclaimedBn.toString(),
+      unclaimedTokens: ethers.utils.formatUnits(unclaimedBn, TBAG_DECIMALS),
+    };
+  });
+}
+
+// ----------------------------------------
+// Ranking: metric desc, then total buys desc, then wallet for stable order
+// ----------------------------------------
+function compareBigDesc(a: string, b: string): number {
+  const diff = ethers.BigNumber.from(b).sub(a);
+  return diff.isZero() ? 0 : diff.isNegative() ? -1 : 1;
+}
+
+export function sortLeaderboard(
+  rows: LeaderboardRow[],
+  sort: LeaderboardSort
+): LeaderboardRow[] {
+  const byMetric = (a: LeaderboardRow, b: LeaderboardRow): number => {
+    switch (sort) {
+      case "claimed":
+        return compareBigDesc(a.totalTokensClaimedRaw, b.totalTokensClaimedRaw);
+      case "unclaimed":
+        return b.unclaimedBuys - a.unclaimedBuys;
+      case "buys":
+      default:
+        return 0;
+    }
+  };
+
+  return [...rows].sort(
+    (a, b) =>
+      byMetric(a, b) ||
+      b.totalBuys - a.totalBuys ||
+      a.wallet.toLowerCase().localeCompare(b.wallet.toLowerCase())
+  );
+}
+
+// ----------------------------------------
+// Ranking, search + pagination
+// ----------------------------------------
+
+export type RankedLeaderboardRow = LeaderboardRow & { rank: number };
+
+export function rankLeaderboard(
+  rows: LeaderboardRow[],
+  sort: LeaderboardSort
+): RankedLeaderboardRow[] {
+  return sortLeaderboard(rows, sort).map((row, i) => ({ ...row, rank: i + 1 }));
+}
+
+// Case-insensitive address prefix match ("0xAbC", "abc" and "0xabc" all match)
+export function searchLeaderboard(
+  ranked: RankedLeaderboardRow[],
+  prefix: string
+): RankedLeaderboardRow[] {
+  const needle = prefix.trim().toLowerCase().replace(/^0x/, "");
+  if (!needle) return ranked;
+  return ranked.filter((r) =>
+    r.wallet.toLowerCase().slice(2).startsWith(needle)
+  );
+}
+
+export type LeaderboardPage = {
+  rows: RankedLeaderboardRow[];
+  total: number;
+  offset: number;
+  // null when this page reaches the end
+  nextOffset: number | null;
+};
+
+export function paginateLeaderboard(
+  ranked: RankedLeaderboardRow[],
+  offset: number,
+  limit: number
+): LeaderboardPage {
+  const rows = ranked.slice(offset, offset + limit);
+  const end = offset + rows.length;
+  return {
+    rows,
+    total: ranked.length,
+    offset,
+    nextOffset: end < ranked.length ? end : null,
+  };
+}
+
+export type WalletRankLookup = {
+  wallet: string;
+  // null when the wallet has no indexed activity
+  row: RankedLeaderboardRow | null;
+  // Up to `radius` rows either side of the wallet (including it)
+  neighbours: RankedLeaderboardRow[];
+};
+
+// ----------------------------------------
+// GET /api/leaderboard response bodies (also typed on the page)
+// ----------------------------------------
+export type LeaderboardPageResponse = LeaderboardPage & {
+  sort: LeaderboardSort;
+  window: ResolvedWindow;
+  search?: string;
+  // Set when serving cached data after a failed refresh
+  error?: string;
+};
+
+export type LeaderboardLookupResponse = {
+  sort: LeaderboardSort;
+  window: ResolvedWindow;
+  total: number;
+  lookup: WalletRankLookup;
+  error?: string;
+};
+
+export function lookupWalletRank(
+  ranked: RankedLeaderboardRow[],
+  wallet: string,
+  radius: number
+): WalletRankLookup {
+  const target = wallet.toLowerCase();
+  const idx = ranked.findIndex((r) => r.wallet.toLowerCase() === target);
+  if (idx === -1) return { wallet, row: null, neighbours: [] };
+
+  return {
+    wallet: ranked[idx].wallet,
+    row: ranked[idx],
+    neighbours: ranked.slice(Math.max(0, idx - radius), idx + radius + 1),
+  };
+}
@@ -0,0 +1,109 @@
+import { ethers } from "ethers";
+import { parseCsv } from "../exportFormats";
+import type { MerkleDistribution } from "./merkle";
+import type { RewardsAllocation, RewardsConfig } from "./tiers";
+
+// ----------------------------------------
+// Allocation file written by the CLI `rewards` command: the inputs, every
+// wallet's amount (with a per-tier breakdown) and the Merkle root built
+// from them. The distributor JSON is derived from this file.
+// ----------------------------------------
+
+// Bump when the file layout changes
+export const REWARDS_ALLOCATION_VERSION = 1;
+
+export type AllocationEntry = {
+  wallet: string;
+  rank: number;
+  buys: number;
+  // uint256 as decimal string (JSON-safe)
+  amount: string;
+  // Tier index (in config.tiers) -> amount
+  byTier: Record<string, string>;
+};
+
+export type RewardsAllocationFile = {
+  version: number;
+  // Snapshot the allocation was computed from ("block 123" or a CSV path)
+  source: string;
+  // sha256 of the snapshot CSV, when built from one
+  sourceSha256: string | null;
+  config: RewardsConfig;
+  merkleRoot: string;
+  total: string;
+  undistributed: string;
+  allocations: AllocationEntry[];
+};
+
+export function toAllocationFile(
+  source: string,
+  sourceSha256: string | null,
+  config: RewardsConfig,
+  allocation: RewardsAllocation,
+  distribution: MerkleDistribution
+): RewardsAllocationFile {
+  return {
+    version: REWARDS_ALLOCATION_VERSION,
+    source,
+    sourceSha256,
+    config,
+    merkleRoot: distribution.merkleRoot,
+    total: allocation.total.toString(),
+    undistributed: allocation.undistributed.toString(),
+    allocations: allocation.allocations.map((a) => ({
+      wallet: a.wallet,
+      rank: a.rank,
+      buys: a.buys,
+      amount: a.amount.toString(),
+      byTier: Object.fromEntries(
+        Object.entries(a.byTier).map(([tier, amount]) => [tier, amount.toString()])
+      ),
+    })),
+  };
+}
+
+// ----------------------------------------
+// Reading: account -> amount (wei) from any supported allocation file,
+// plus the Merkle root it claims, if any
+// ----------------------------------------
+export function parseAllocationBalances(
+  contents: string,
+  fileName: string
+): { balances: Map<string, ethers.BigNumber>; merkleRoot: string | null } {
+  let entries: { wallet: string; amount: string }[];
+  let merkleRoot: string | null = null;
+
+  if (/\.csv$/i.test(fileName)) {
+    const [header, ...records] = parseCsv(contents);
+    const w = header?.indexOf("wallet") ?? -1;
+    const a = header?.indexOf("amount") ?? -1;
+    if (w === -1 || a === -1) {
+      throw new Error("Allocation CSV needs wallet and amount columns");
+    }
+    entries = records.map((r) => ({ wallet: r[w], amount: r[a] }));
+  } else {
+    const json = JSON.parse(contents) as
+      | RewardsAllocationFile
+      | { wallet: string; amount: string }[];
+    if (Array.isArray(json)) {
+      entries = json;
+    } else {
+      entries = json.allocations ?? [];
+      merkleRoot = json.merkleRoot ?? null;
+    }
+  }
+
+  const balances = new Map<string, ethers.BigNumber>();
+  entries.forEach(({ wallet, amount }, i) => {
+    if (!ethers.utils.isAddress(wallet) || !/^\d+$/.test(String(amount))) {
+      throw new Error(`Invalid allocation entry ${i + 1}`);
+    }
+    const account = ethers.utils.getAddress(wallet);
+    balances.set(
+      account,
+      (balances.get(account) ?? ethers.constants.Zero).add(amount)
+    );
+  });
+
+  return { balances, merkleRoot };
+}
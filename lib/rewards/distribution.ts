@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import { REWARDS_ALLOCATION_FILE } from "../config";
+import { parseAllocationBalances } from "./allocationFile";
+import { buildMerkleDistribution, type MerkleDistribution } from "./merkle";
+
+// ----------------------------------------
+// Published reward distribution: REWARDS_ALLOCATION_FILE parsed and turned
+// into a Merkle tree, rebuilt only when the file changes
+// ----------------------------------------
+let cached: { mtimeMs: number; distribution: MerkleDistribution } | null = null;
+
+// null when no allocation file is configured / present
+export async function loadRewardsDistribution(): Promise<MerkleDistribution | null> {
+  if (!REWARDS_ALLOCATION_FILE) return null;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(REWARDS_ALLOCATION_FILE)).mtimeMs;
+  } catch (err: unknown) {
+    if ((err as { code?: string })?.code === "ENOENT") return null;
+    throw err;
+  }
+  if (cached?.mtimeMs === mtimeMs) return cached.distribution;
+
+  const { balances, merkleRoot } = parseAllocationBalances(
+    await fs.readFile(REWARDS_ALLOCATION_FILE, "utf8"),
+    REWARDS_ALLOCATION_FILE
+  );
+  const distribution = buildMerkleDistribution(balances);
+
+  // The file's own root must match what we rebuilt, or proofs would be
+  // for a different tree than the one deployed
+  if (merkleRoot && merkleRoot.toLowerCase() !== distribution.merkleRoot) {
+    throw new Error(
+      `Allocation file Merkle root ${merkleRoot} does not match rebuilt root ${distribution.merkleRoot}`
+    );
+  }
+
+  cached = { mtimeMs, distribution };
+  return distribution;
+}
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+
+// ----------------------------------------
+// Merkle distribution in the Uniswap merkle-distributor format:
+//   leaf  = keccak256(abi.encodePacked(uint256 index, address account, uint256 amount))
+//   node  = keccak256(sorted(left, right))
+//   index = position of the account in address-sorted order
+// so the root and proofs work with MerkleDistributor.claim() as-is
+// ----------------------------------------
+
+export type MerkleClaim = {
+  index: number;
+  // uint256 as 0x hex
+  amount: string;
+  proof: string[];
+};
+
+export type MerkleDistribution = {
+  merkleRoot: string;
+  // Sum of all amounts, 0x hex
+  tokenTotal: string;
+  claims: Record<string, MerkleClaim>;
+};
+
+export function merkleLeaf(
+  index: number,
+  account: string,
+  amount: ethers.BigNumberish
+): string {
+  return ethers.utils.solidityKeccak256(
+    ["uint256", "address", "uint256"],
+    [index, account, amount]
+  );
+}
+
+function hashPair(a: string, b: string): string {
+  const [x, y] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.utils.keccak256(ethers.utils.concat([x, y]));
+}
+
+// Bottom-up layers over sorted, de-duplicated leaves; an unpaired node is
+// carried up unchanged
+function buildLayers(leaves: string[]): string[][] {
+  const sorted = Array.from(new Set(leaves.map((l) => l.toLowerCase()))).sort();
+  if (sorted.length === 0) return [[ethers.constants.HashZero]];
+
+  const layers = [sorted];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+function proofFor(layers: string[][], leaf: string): string[] {
+  let idx = layers[0].indexOf(leaf.toLowerCase());
+  if (idx === -1) throw new Error(`Leaf ${leaf} is not in the tree`);
+
+  const proof: string[] = [];
+  for (const layer of layers.slice(0, -1)) {
+    const pairIdx = idx % 2 === 0 ? idx + 1 : idx - 1;
+    if (pairIdx < layer.length) proof.push(layer[pairIdx]);
+    idx = Math.floor(idx / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(
+  root: string,
+  leaf: string,
+  proof: string[]
+): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+// ----------------------------------------
+// Build the distribution from account -> amount (zero amounts dropped)
+// ----------------------------------------
+export function buildMerkleDistribution(
+  balances: Map<string, ethers.BigNumber>
+): MerkleDistribution {
+  const entries = Array.from(balances)
+    .filter(([, amount]) => amount.gt(0))
+    .map(([account, amount]) => [ethers.utils.getAddress(account), amount] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const leaves = entries.map(([account, amount], index) =>
+    merkleLeaf(index, account, amount)
+  );
+  const layers = buildLayers(leaves);
+
+  const claims: Record<string, MerkleClaim> = {};
+  entries.forEach(([account, amount], index) => {
+    claims[account] = {
+      index,
+      amount: amount.toHexString(),
+      proof: proofFor(layers, leaves[index]),
+    };
+  });
+
+  const tokenTotal = entries.reduce(
+    (sum, [, amount]) => sum.add(amount),
+    ethers.constants.Zero
+  );
+
+  return {
+    merkleRoot: layers[layers.length - 1][0],
+    tokenTotal: tokenTotal.toHexString(),
+    claims,
+  };
+}
@@ -0,0 +1,206 @@
+import { ethers } from "ethers";
+import { TBAG_DECIMALS } from "../contracts/tbagDailyFreeBuys";
+import type { WalletTotals } from "../exportFormats";
+
+// ----------------------------------------
+// Tier config, e.g.
+// {
+//   "minBuys": 1,
+//   "exclude": ["0x…"],
+//   "tiers": [
+//     { "type": "rank", "fromRank": 1, "toRank": 10, "amount": "1000" },
+//     { "type": "rank", "fromRank": 11, "toRank": 100, "amount": "100" },
+//     { "type": "proRata", "pool": "50000" }
+//   ]
+// }
+// Amounts are TBAG (decimal strings). Ranks are by buys, ties broken by
+// address, over eligible wallets only.
+// ----------------------------------------
+
+export type RankTier = {
+  type: "rank";
+  fromRank: number;
+  toRank: number;
+  // Paid to every wallet ranked fromRank..toRank (inclusive)
+  amount: string;
+};
+
+export type ProRataTier = {
+  type: "proRata";
+  // Split across eligible wallets in proportion to buys
+  pool: string;
+  // Extra threshold for this tier only
+  minBuys?: number;
+};
+
+export type RewardTier = RankTier | ProRataTier;
+
+export type RewardsConfig = {
+  decimals: number;
+  // Wallets with fewer buys are not ranked and get nothing (default 1)
+  minBuys: number;
+  exclude: string[];
+  tiers: RewardTier[];
+};
+
+export type WalletAllocation = {
+  wallet: string;
+  rank: number;
+  buys: number;
+  amount: ethers.BigNumber;
+  // Amount per tier, by index in config.tiers
+  byTier: Record<number, ethers.BigNumber>;
+};
+
+export type RewardsAllocation = {
+  allocations: WalletAllocation[];
+  total: ethers.BigNumber;
+  // Pro-rata pool left unpaid (rounding dust, or no eligible wallets)
+  undistributed: ethers.BigNumber;
+};
+
+// ----------------------------------------
+// Config parsing: throws with a message naming the bad field
+// ----------------------------------------
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+function parseAmount(value: unknown, field: string, decimals: number) {
+  if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`${field} must be a decimal string, e.g. "1000"`);
+  }
+  try {
+    return ethers.utils.parseUnits(value, decimals);
+  } catch {
+    throw new Error(`${field} has more than ${decimals} decimals`);
+  }
+}
+
+export function parseRewardsConfig(json: unknown): RewardsConfig {
+  const raw = json as Partial<RewardsConfig> | null;
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Rewards config must be an object");
+  }
+
+  const decimals = raw.decimals ?? TBAG_DECIMALS;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    throw new Error("decimals must be an integer 0–36");
+  }
+
+  const minBuys = raw.minBuys ?? 1;
+  if (!Number.isInteger(minBuys) || minBuys < 0) {
+    throw new Error("minBuys must be a non-negative integer");
+  }
+
+  const exclude = raw.exclude ?? [];
+  if (
+    !Array.isArray(exclude) ||
+    exclude.some((a) => !ethers.utils.isAddress(a))
+  ) {
+    throw new Error("exclude must be a list of addresses");
+  }
+
+  if (!Array.isArray(raw.tiers) || raw.tiers.length === 0) {
+    throw new Error("tiers must be a non-empty list");
+  }
+
+  const tiers = raw.tiers.map((tier, i): RewardTier => {
+    const field = `tiers[${i}]`;
+    switch (tier?.type) {
+      case "rank":
+        if (!isPositiveInt(tier.fromRank) || !isPositiveInt(tier.toRank)) {
+          throw new Error(`${field}: fromRank/toRank must be integers >= 1`);
+        }
+        if (tier.fromRank > tier.toRank) {
+          throw new Error(`${field}: fromRank must not exceed toRank`);
+        }
+        parseAmount(tier.amount, `${field}.amount`, decimals);
+        return tier;
+      case "proRata":
+        if (tier.minBuys !== undefined && !isPositiveInt(tier.minBuys)) {
+          throw new Error(`${field}: minBuys must be an integer >= 1`);
+        }
+        parseAmount(tier.pool, `${field}.pool`, decimals);
+        return tier;
+      default:
+        throw new Error(`${field}: type must be "rank" or "proRata"`);
+    }
+  });
+
+  return { decimals, minBuys, exclude, tiers };
+}
+
+// ----------------------------------------
+// Allocation: rank eligible wallets by buys, apply every tier, sum per
+// wallet. Pro-rata shares round down; the dust is reported, not paid.
+// Rank slots past the last eligible wallet are simply not paid.
+// ----------------------------------------
+export function allocateRewards(
+  rows: WalletTotals[],
+  config: RewardsConfig
+): RewardsAllocation {
+  const excluded = new Set(config.exclude.map((a) => a.toLowerCase()));
+
+  const ranked = rows
+    .filter(
+      (r) =>
+        r.totalBuys >= config.minBuys && !excluded.has(r.wallet.toLowerCase())
+    )
+    .sort(
+      (a, b) =>
+        b.totalBuys - a.totalBuys ||
+        a.wallet.toLowerCase().localeCompare(b.wallet.toLowerCase())
+    )
+    .map(
+      (r, i): WalletAllocation => ({
+        wallet: ethers.utils.getAddress(r.wallet),
+        rank: i + 1,
+        buys: r.totalBuys,
+        amount: ethers.constants.Zero,
+        byTier: {},
+      })
+    );
+
+  let undistributed = ethers.constants.Zero;
+
+  const credit = (a: WalletAllocation, tier: number, amount: ethers.BigNumber) => {
+    if (amount.isZero()) return;
+    a.byTier[tier] = (a.byTier[tier] ?? ethers.constants.Zero).add(amount);
+    a.amount = a.amount.add(amount);
+  };
+
+  config.tiers.forEach((tier, t) => {
+    if (tier.type === "rank") {
+      const amount = ethers.utils.parseUnits(tier.amount, config.decimals);
+      for (const a of ranked.slice(tier.fromRank - 1, tier.toRank)) {
+        credit(a, t, amount);
+      }
+      return;
+    }
+
+    const pool = ethers.utils.parseUnits(tier.pool, config.decimals);
+    const eligible = ranked.filter((a) => a.buys >= (tier.minBuys ?? 1));
+    const totalBuys = eligible.reduce((sum, a) => sum + a.buys, 0);
+    if (totalBuys === 0) {
+      undistributed = undistributed.add(pool);
+      return;
+    }
+
+    let paid = ethers.constants.Zero;
+    for (const a of eligible) {
+      const share = pool.mul(a.buys).div(totalBuys);
+      credit(a, t, share);
+      paid = paid.add(share);
+    }
+    undistributed = undistributed.add(pool.sub(paid));
+  });
+
+  const allocations = ranked.filter((a) => a.amount.gt(0));
+  const total = allocations.reduce(
+    (sum, a) => sum.add(a.amount),
+    ethers.constants.Zero
+  );
+
+  return { allocations, total, undistributed };
+}
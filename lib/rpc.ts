@@ -0,0 +1,268 @@
+import { ethers } from "ethers";
+
+// ----------------------------------------
+// Config
+// Works on the server (LINEA_RPC_URLS / LINEA_RPC_URL) and in the browser
+// (NEXT_PUBLIC_LINEA_RPC_URLS); lists are comma-separated.
+// ----------------------------------------
+
+export const LINEA_CHAIN_ID = 59144;
+
+export const LINEA_RPC_URLS: string[] = (
+  process.env.LINEA_RPC_URLS ??
+  process.env.NEXT_PUBLIC_LINEA_RPC_URLS ??
+  process.env.LINEA_RPC_URL ??
+  "https://rpc.linea.build"
+)
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+
+export type RpcPoolOptions = {
+  // Per-request timeout
+  timeoutMs?: number;
+  // Retries after the first attempt (each may hit a different endpoint)
+  maxRetries?: number;
+  // Backoff: random delay in [0, min(maxDelay, base * 2^attempt)]
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // How long a failing endpoint is skipped before being tried again
+  cooldownMs?: number;
+  // Re-check endpoint health at most this often
+  healthCheckIntervalMs?: number;
+  // Endpoints this many blocks behind the best one count as unhealthy
+  maxBlockLag?: number;
+};
+
+const DEFAULT_OPTIONS: Required<RpcPoolOptions> = {
+  timeoutMs: Number(process.env.RPC_TIMEOUT_MS ?? 15_000),
+  maxRetries: Number(process.env.RPC_MAX_RETRIES ?? 4),
+  baseDelayMs: 250,
+  maxDelayMs: 8_000,
+  cooldownMs: 30_000,
+  healthCheckIntervalMs: 60_000,
+  maxBlockLag: 20,
+};
+
+type Endpoint = {
+  url: string;
+  provider: ethers.providers.StaticJsonRpcProvider;
+  // Skip until this time (ms) after a failure / failed health check
+  unhealthyUntil: number;
+  lastBlock: number | null;
+};
+
+// ----------------------------------------
+// Error classification: only transient failures are retried elsewhere.
+// Everything else (reverts, -32005 "too many results", bad params) is
+// rethrown untouched so callers can react to it.
+// ----------------------------------------
+const TRANSIENT_MESSAGE =
+  /timeout|timed out|rate limit|too many requests|429|bad gateway|service unavailable|gateway timeout|econnreset|econnrefused|enotfound|socket hang up|network error|missing response|header not found/i;
+
+type RpcErrorLike = {
+  code?: string | number;
+  status?: number;
+  message?: string;
+  error?: { code?: string | number; message?: string };
+};
+
+// JSON-RPC error code, whether thrown directly or wrapped by ethers'
+// fetchJson ("processing response error", code SERVER_ERROR, error.code)
+export function rpcErrorCode(err: unknown): number | undefined {
+  const e = err as RpcErrorLike;
+  if (typeof e?.code === "number") return e.code;
+  if (typeof e?.error?.code === "number") return e.error.code;
+  return undefined;
+}
+
+export function isTransientRpcError(err: unknown): boolean {
+  const e = err as RpcErrorLike;
+  const rpcCode = rpcErrorCode(err);
+
+  // JSON-RPC errors: only a few codes are node-side / rate-limit problems
+  if (rpcCode !== undefined) {
+    if (rpcCode === 429 || rpcCode === -32029) return true;
+    if (rpcCode === -32603 || rpcCode === -32000) {
+      return TRANSIENT_MESSAGE.test(
+        `${e?.message ?? ""} ${e?.error?.message ?? ""}`
+      );
+    }
+    return false;
+  }
+
+  if (e?.code === "TIMEOUT") return true;
+
+  // fetchJson: HTTP status errors + network failures (no status)
+  if (e?.code === "SERVER_ERROR") {
+    const status = Number(e.status ?? 0);
+    return status === 0 || status === 429 || status >= 500;
+  }
+
+  return TRANSIENT_MESSAGE.test(e?.message ?? "");
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ----------------------------------------
+// RpcPoolProvider: a JsonRpcProvider whose every request goes through a
+// pool of endpoints with health checks, jittered retries and rotation.
+// Drop-in wherever an ethers provider is expected.
+// ----------------------------------------
+export class RpcPoolProvider extends ethers.providers.StaticJsonRpcProvider {
+  readonly endpoints: Endpoint[];
+  private readonly options: Required<RpcPoolOptions>;
+  private cursor = 0;
+  private lastHealthCheck = 0;
+  private healthCheck: Promise<void> | null = null;
+
+  constructor(
+    urls: string[] = LINEA_RPC_URLS,
+    options: RpcPoolOptions = {},
+    chainId: number = LINEA_CHAIN_ID
+  ) {
+    if (urls.length === 0) {
+      throw new Error("RpcPoolProvider needs at least one URL");
+    }
+
+    const network = { chainId, name: `chain-${chainId}` };
+    super(urls[0], network);
+
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = urls.map((url) => ({
+      url,
+      provider: new ethers.providers.StaticJsonRpcProvider(
+        // throttleLimit 1: let the pool (not fetchJson) handle 429s
+        { url, timeout: this.options.timeoutMs, throttleLimit: 1 },
+        network
+      ),
+      unhealthyUntil: 0,
+      lastBlock: null,
+    }));
+  }
+
+  // Healthy endpoints first (round-robin from the cursor), then the rest
+  private orderedEndpoints(): Endpoint[] {
+    const now = Date.now();
+    const n = this.endpoints.length;
+    const rotated = Array.from(
+      { length: n },
+      (_, i) => this.endpoints[(this.cursor + i) % n]
+    );
+    return [
+      ...rotated.filter((e) => e.unhealthyUntil <= now),
+      ...rotated.filter((e) => e.unhealthyUntil > now),
+    ];
+  }
+
+  private markUnhealthy(endpoint: Endpoint) {
+    endpoint.unhealthyUntil = Date.now() + this.options.cooldownMs;
+    this.cursor =
+      (this.endpoints.indexOf(endpoint) + 1) % this.endpoints.length;
+  }
+
+  // ----------------------------------------
+  // Health check: eth_blockNumber on every endpoint; failures and laggards
+  // are put in cooldown
+  // ----------------------------------------
+  async checkHealth(): Promise<void> {
+    if (this.healthCheck) return this.healthCheck;
+
+    this.healthCheck = (async () => {
+      const results = await Promise.all(
+        this.endpoints.map(async (endpoint) => {
+          try {
+            const hex = await endpoint.provider.send("eth_blockNumber", []);
+            endpoint.lastBlock = Number(hex);
+            return endpoint.lastBlock;
+          } catch (err) {
+            console.warn(
+              `RPC health check failed for ${endpoint.url}:`,
+              (err as Error)?.message ?? err
+            );
+            this.markUnhealthy(endpoint);
+            return null;
+          }
+        })
+      );
+
+      const best = Math.max(
+        ...results.filter((b): b is number => b !== null),
+        0
+      );
+      this.endpoints.forEach((endpoint, i) => {
+        const block = results[i];
+        if (block === null) return;
+        if (best - block > this.options.maxBlockLag) {
+          console.warn(
+            `RPC ${endpoint.url} is ${best - block} blocks behind; skipping`
+          );
+          this.markUnhealthy(endpoint);
+        } else {
+          endpoint.unhealthyUntil = 0;
+        }
+      });
+
+      this.lastHealthCheck = Date.now();
+    })().finally(() => {
+      this.healthCheck = null;
+    });
+
+    return this.healthCheck;
+  }
+
+  // ----------------------------------------
+  // Every JsonRpcProvider call (getLogs, call, getBlock, …) lands here
+  // ----------------------------------------
+  async send(method: string, params: Array<unknown>): Promise<unknown> {
+    if (
+      this.endpoints.length > 1 &&
+      Date.now() - this.lastHealthCheck > this.options.healthCheckIntervalMs
+    ) {
+      await this.checkHealth();
+    }
+
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      const endpoint = this.orderedEndpoints()[0];
+
+      try {
+        return await endpoint.provider.send(method, params);
+      } catch (err) {
+        lastError = err;
+        if (!isTransientRpcError(err)) throw err;
+
+        this.markUnhealthy(endpoint);
+        if (attempt === this.options.maxRetries) break;
+
+        const cap = Math.min(
+          this.options.maxDelayMs,
+          this.options.baseDelayMs * 2 ** attempt
+        );
+        const delay = Math.floor(Math.random() * cap);
+        console.warn(
+          `RPC ${method} failed on ${endpoint.url} (${(err as Error)?.message ?? err}); retry ${
+            attempt + 1
+          }/${this.options.maxRetries} in ${delay}ms`
+        );
+        await sleep(delay);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+// ----------------------------------------
+// Shared pool (per server instance / browser tab) so health state and
+// rotation carry over between requests
+// ----------------------------------------
+let sharedProvider: RpcPoolProvider | null = null;
+
+export function getLineaProvider(): RpcPoolProvider {
+  if (!sharedProvider) {
+    sharedProvider = new RpcPoolProvider(LINEA_RPC_URLS);
+  }
+  return sharedProvider;
+}
@@ -0,0 +1,164 @@
+// ----------------------------------------
+// Program schedule: when buys and claims open and close. Pure so the page
+// can re-derive the phase every second from the schedule the server sent.
+// ----------------------------------------
+
+// upcoming  -> before startsAt: nothing open yet
+// active    -> buys open (claims too, once claimsOpenAt has passed)
+// claimsOnly-> buys closed, claims open from claimsOpenAt
+// closed    -> everything closed
+export const PROGRAM_PHASES = [
+  "upcoming",
+  "active",
+  "claimsOnly",
+  "closed",
+] as const;
+export type ProgramPhase = (typeof PROGRAM_PHASES)[number];
+
+// Unix seconds; null = no bound on that side
+export type ProgramSchedule = {
+  startsAt: number | null;
+  buysCloseAt: number | null;
+  // Claims stay shut until this time, even while buys are open
+  claimsOpenAt: number | null;
+  claimsCloseAt: number | null;
+};
+
+export type ProgramStatus = {
+  phase: ProgramPhase;
+  canBuy: boolean;
+  canClaim: boolean;
+  // Next scheduled change, for countdowns
+  next: { at: number; label: string } | null;
+};
+
+// No schedule published: behave as if the program is over
+export const CLOSED_SCHEDULE: ProgramSchedule = {
+  startsAt: null,
+  buysCloseAt: 0,
+  claimsOpenAt: null,
+  claimsCloseAt: 0,
+};
+
+// ----------------------------------------
+// Parsing: each field is unix seconds, an ISO 8601 date or null
+// ----------------------------------------
+function parseTime(value: unknown, field: string): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const ms = Date.parse(value);
+    if (!Number.isNaN(ms)) return Math.floor(ms / 1000);
+  }
+  throw new Error(`Invalid ${field}: ${JSON.stringify(value)}`);
+}
+
+export function parseProgramSchedule(json: unknown): ProgramSchedule {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("Program schedule must be an object");
+  }
+  const raw = json as Record<string, unknown>;
+
+  const schedule: ProgramSchedule = {
+    startsAt: parseTime(raw.startsAt, "startsAt"),
+    buysCloseAt: parseTime(raw.buysCloseAt, "buysCloseAt"),
+    claimsOpenAt: parseTime(raw.claimsOpenAt, "claimsOpenAt"),
+    claimsCloseAt: parseTime(raw.claimsCloseAt, "claimsCloseAt"),
+  };
+
+  const { startsAt, buysCloseAt, claimsOpenAt, claimsCloseAt } = schedule;
+  if (startsAt !== null && buysCloseAt !== null && buysCloseAt < startsAt) {
+    throw new Error("buysCloseAt is before startsAt");
+  }
+  if (
+    buysCloseAt !== null &&
+    claimsCloseAt !== null &&
+    claimsCloseAt < buysCloseAt
+  ) {
+    throw new Error("claimsCloseAt is before buysCloseAt");
+  }
+  if (
+    claimsOpenAt !== null &&
+    claimsCloseAt !== null &&
+    claimsCloseAt < claimsOpenAt
+  ) {
+    throw new Error("claimsCloseAt is before claimsOpenAt");
+  }
+
+  return schedule;
+}
+
+// ----------------------------------------
+// Phase at `now` (unix seconds)
+// ----------------------------------------
+export function programStatus(
+  schedule: ProgramSchedule,
+  now: number
+): ProgramStatus {
+  const { startsAt, buysCloseAt, claimsOpenAt, claimsCloseAt } = schedule;
+  const claimsOpened = claimsOpenAt === null || now >= claimsOpenAt;
+
+  if (claimsCloseAt !== null && now >= claimsCloseAt) {
+    return { phase: "closed", canBuy: false, canClaim: false, next: null };
+  }
+
+  if (startsAt !== null && now < startsAt) {
+    return {
+      phase: "upcoming",
+      canBuy: false,
+      canClaim: false,
+      next: { at: startsAt, label: "Opens" },
+    };
+  }
+
+  if (buysCloseAt === null || now < buysCloseAt) {
+    // Whichever comes first: claims opening or buys closing
+    const upcoming = [
+      !claimsOpened && claimsOpenAt !== null
+        ? { at: claimsOpenAt, label: "Claims open" }
+        : null,
+      buysCloseAt !== null ? { at: buysCloseAt, label: "Buys close" } : null,
+    ].filter((e) => e !== null);
+    upcoming.sort((a, b) => a.at - b.at);
+
+    return {
+      phase: "active",
+      canBuy: true,
+      canClaim: claimsOpened,
+      next: upcoming[0] ?? null,
+    };
+  }
+
+  if (!claimsOpened && claimsOpenAt !== null) {
+    return {
+      phase: "claimsOnly",
+      canBuy: false,
+      canClaim: false,
+      next: { at: claimsOpenAt, label: "Claims open" },
+    };
+  }
+
+  return {
+    phase: "claimsOnly",
+    canBuy: false,
+    canClaim: true,
+    next:
+      claimsCloseAt !== null ? { at: claimsCloseAt, label: "Claims close" } : null,
+  };
+}
+
+// "2d 04h 13m" / "04h 13m 09s" / "13m 09s"
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(s / 86_400);
+  const hours = Math.floor((s % 86_400) / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const secs = s % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  if (days > 0) return `${days}d ${pad(hours)}h ${pad(minutes)}m`;
+  if (hours > 0) return `${pad(hours)}h ${pad(minutes)}m ${pad(secs)}s`;
+  return `${pad(minutes)}m ${pad(secs)}s`;
+}
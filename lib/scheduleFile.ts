@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { INDEXER_DATA_DIR, PROGRAM_SCHEDULE_FILE } from "./config";
+import {
+  CLOSED_SCHEDULE,
+  parseProgramSchedule,
+  type ProgramSchedule,
+} from "./schedule";
+
+// ----------------------------------------
+// Published program schedule: a JSON file re-read when it changes, so
+// phases can be moved without a redeploy (see PUT /api/admin/schedule)
+// ----------------------------------------
+const SCHEDULE_FILE =
+  PROGRAM_SCHEDULE_FILE ?? path.join(INDEXER_DATA_DIR, "program-schedule.json");
+
+let cached: { mtimeMs: number; schedule: ProgramSchedule } | null = null;
+
+// CLOSED_SCHEDULE when no file has been published
+export async function loadProgramSchedule(): Promise<ProgramSchedule> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(SCHEDULE_FILE)).mtimeMs;
+  } catch (err: unknown) {
+    if ((err as { code?: string })?.code === "ENOENT") return CLOSED_SCHEDULE;
+    throw err;
+  }
+  if (cached?.mtimeMs === mtimeMs) return cached.schedule;
+
+  const schedule = parseProgramSchedule(
+    JSON.parse(await fs.readFile(SCHEDULE_FILE, "utf8"))
+  );
+  cached = { mtimeMs, schedule };
+  return schedule;
+}
+
+// Validated again so a file loadProgramSchedule would reject is never written
+export async function saveProgramSchedule(schedule: ProgramSchedule) {
+  parseProgramSchedule(schedule);
+  const tmp = `${SCHEDULE_FILE}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(SCHEDULE_FILE), { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(schedule, null, 2), "utf8");
+  await fs.rename(tmp, SCHEDULE_FILE);
+  cached = null;
+}
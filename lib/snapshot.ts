@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { TBAG_DAILY_BUYS_ADDRESS } from "./contracts/tbagDailyFreeBuys";
+import {
+  WALLET_TOTALS_COLUMNS,
+  formatExport,
+  type WalletTotals,
+} from "./exportFormats";
+import type { IndexState } from "./indexer/types";
+import { aggregateWallets } from "./leaderboard";
+import { sliceIndexState } from "./windows";
+
+// ----------------------------------------
+// Deterministic snapshots: per-wallet totals at a block, written as RFC 4180
+// CSV (export column schema) sorted by address, plus a manifest carrying the
+// block hash and the sha256 of the CSV bytes. Re-running the snapshot for
+// the same contract/range reproduces the file byte for byte.
+// ----------------------------------------
+
+// Bump when the snapshot layout changes
+export const SNAPSHOT_VERSION = 1;
+
+export type SnapshotManifest = {
+  version: number;
+  chainId: number;
+  contract: string;
+  fromBlock: number;
+  blockNumber: number;
+  blockHash: string;
+  rowCount: number;
+  totalBuys: number;
+  // sha256 of the CSV file, hex without 0x
+  contentSha256: string;
+  // EIP-191 signature over snapshotManifestMessage(manifest)
+  signer?: string;
+  signature?: string;
+};
+
+export type Snapshot = {
+  rows: WalletTotals[];
+  csv: string;
+  manifest: SnapshotManifest;
+};
+
+export function snapshotContentHash(csv: string): string {
+  return crypto.createHash("sha256").update(csv, "utf8").digest("hex");
+}
+
+// Rows for every wallet with activity in [state.fromBlock, blockNumber],
+// sorted by lowercase address
+export function snapshotRows(
+  state: IndexState,
+  fromBlock: number,
+  blockNumber: number
+): WalletTotals[] {
+  const slice = sliceIndexState(state, { fromBlock, toBlock: blockNumber });
+
+  // tbagPerBuy only feeds the unclaimed columns, which snapshots don't carry
+  return aggregateWallets(slice, ethers.constants.Zero)
+    .map(
+      (row): WalletTotals => ({
+        wallet: ethers.utils.getAddress(row.wallet),
+        totalBuys: row.totalBuys,
+        totalClaimTxs: row.totalClaimTxs,
+        totalBuysClaimed: row.totalBuysClaimed,
+        totalTokensClaimedRaw: row.totalTokensClaimedRaw,
+        totalTokensClaimed: row.totalTokensClaimed,
+      })
+    )
+    .sort((a, b) => {
+      const x = a.wallet.toLowerCase();
+      const y = b.wallet.toLowerCase();
+      return x < y ? -1 : x > y ? 1 : 0;
+    });
+}
+
+export async function createSnapshot(
+  provider: ethers.providers.Provider,
+  state: IndexState,
+  fromBlock: number,
+  blockNumber: number
+): Promise<Snapshot> {
+  if (blockNumber > state.lastIndexedBlock) {
+    throw new Error(
+      `Block ${blockNumber} is past the last indexed block ${state.lastIndexedBlock}`
+    );
+  }
+
+  const [block, network] = await Promise.all([
+    provider.getBlock(blockNumber),
+    provider.getNetwork(),
+  ]);
+  if (!block) throw new Error(`Block ${blockNumber} not found`);
+
+  const rows = snapshotRows(state, fromBlock, blockNumber);
+  const csv = formatExport("csv", rows, WALLET_TOTALS_COLUMNS);
+
+  return {
+    rows,
+    csv,
+    manifest: {
+      version: SNAPSHOT_VERSION,
+      chainId: network.chainId,
+      contract: ethers.utils.getAddress(TBAG_DAILY_BUYS_ADDRESS),
+      fromBlock,
+      blockNumber,
+      blockHash: block.hash,
+      rowCount: rows.length,
+      totalBuys: rows.reduce((sum, r) => sum + r.totalBuys, 0),
+      contentSha256: snapshotContentHash(csv),
+    },
+  };
+}
+
+// ----------------------------------------
+// Signing: the signed message is the manifest without signer/signature,
+// as JSON with keys in declaration order
+// ----------------------------------------
+export function snapshotManifestMessage(manifest: SnapshotManifest): string {
+  return JSON.stringify({
+    version: manifest.version,
+    chainId: manifest.chainId,
+    contract: manifest.contract,
+    fromBlock: manifest.fromBlock,
+    blockNumber: manifest.blockNumber,
+    blockHash: manifest.blockHash,
+    rowCount: manifest.rowCount,
+    totalBuys: manifest.totalBuys,
+    contentSha256: manifest.contentSha256,
+  });
+}
+
+export async function signSnapshotManifest(
+  manifest: SnapshotManifest,
+  privateKey: string
+): Promise<SnapshotManifest> {
+  const wallet = new ethers.Wallet(privateKey);
+  const signature = await wallet.signMessage(snapshotManifestMessage(manifest));
+  return { ...manifest, signer: wallet.address, signature };
+}
+
+export type SnapshotVerification = {
+  contentMatches: boolean;
+  // null when the manifest is unsigned
+  signatureValid: boolean | null;
+};
+
+export function verifySnapshot(
+  csv: string,
+  manifest: SnapshotManifest
+): SnapshotVerification {
+  const contentMatches = snapshotContentHash(csv) === manifest.contentSha256;
+
+  if (!manifest.signature || !manifest.signer) {
+    return { contentMatches, signatureValid: null };
+  }
+
+  let signatureValid = false;
+  try {
+    const recovered = ethers.utils.verifyMessage(
+      snapshotManifestMessage(manifest),
+      manifest.signature
+    );
+    signatureValid =
+      recovered.toLowerCase() === manifest.signer.toLowerCase();
+  } catch {
+    signatureValid = false;
+  }
+
+  return { contentMatches, signatureValid };
+}
@@ -0,0 +1,142 @@
+import { ethers } from "ethers";
+import { TBAG_DECIMALS } from "./contracts/tbagDailyFreeBuys";
+import type { WalletTotals } from "./exportFormats";
+
+// ----------------------------------------
+// Snapshot diff: compare wallet standings between two snapshots (two
+// block heights, or two exported CSVs). Ranks are by buys, ties broken by
+// address, the same as the leaderboard's "buys" view.
+// ----------------------------------------
+
+export type WalletDiff = {
+  wallet: string;
+  status: "new" | "changed" | "dropped";
+  rankBefore: number | null;
+  rankAfter: number | null;
+  // Positive = moved up the leaderboard; null for new/dropped wallets
+  rankChange: number | null;
+  buysBefore: number;
+  buysAfter: number;
+  buysDelta: number;
+  tokensClaimedDeltaRaw: string;
+  tokensClaimedDelta: string;
+};
+
+export type SnapshotDiffTotals = {
+  walletsBefore: number;
+  walletsAfter: number;
+  newWallets: number;
+  droppedWallets: number;
+  buysBefore: number;
+  buysAfter: number;
+  buysDelta: number;
+  tokensClaimedBeforeRaw: string;
+  tokensClaimedAfterRaw: string;
+  tokensClaimedDeltaRaw: string;
+  tokensClaimedDelta: string;
+};
+
+export type SnapshotDiff = {
+  totals: SnapshotDiffTotals;
+  // Only wallets where something changed: biggest buy gain first
+  wallets: WalletDiff[];
+};
+
+function rankByBuys(rows: WalletTotals[]): Map<string, number> {
+  const sorted = [...rows].sort(
+    (a, b) =>
+      b.totalBuys - a.totalBuys ||
+      a.wallet.toLowerCase().localeCompare(b.wallet.toLowerCase())
+  );
+  return new Map(sorted.map((row, i) => [row.wallet, i + 1]));
+}
+
+function byWallet(rows: WalletTotals[]): Map<string, WalletTotals> {
+  return new Map(
+    rows.map((row) => {
+      const wallet = ethers.utils.getAddress(row.wallet);
+      return [wallet, { ...row, wallet }];
+    })
+  );
+}
+
+const sumTokens = (rows: Iterable<WalletTotals>): ethers.BigNumber =>
+  Array.from(rows).reduce(
+    (sum, r) => sum.add(r.totalTokensClaimedRaw),
+    ethers.constants.Zero
+  );
+
+const formatTokens = (raw: ethers.BigNumber) =>
+  ethers.utils.formatUnits(raw, TBAG_DECIMALS);
+
+export function diffSnapshots(
+  beforeRows: WalletTotals[],
+  afterRows: WalletTotals[]
+): SnapshotDiff {
+  const before = byWallet(beforeRows);
+  const after = byWallet(afterRows);
+  const rankBefore = rankByBuys(Array.from(before.values()));
+  const rankAfter = rankByBuys(Array.from(after.values()));
+
+  const wallets: WalletDiff[] = [];
+
+  for (const wallet of new Set([...before.keys(), ...after.keys()])) {
+    const a = before.get(wallet);
+    const b = after.get(wallet);
+    const rA = rankBefore.get(wallet) ?? null;
+    const rB = rankAfter.get(wallet) ?? null;
+
+    const buysBefore = a?.totalBuys ?? 0;
+    const buysAfter = b?.totalBuys ?? 0;
+    const tokensDelta = ethers.BigNumber.from(
+      b?.totalTokensClaimedRaw ?? 0
+    ).sub(a?.totalTokensClaimedRaw ?? 0);
+
+    const rankChange = rA !== null && rB !== null ? rA - rB : null;
+    const unchanged =
+      rankChange === 0 && buysBefore === buysAfter && tokensDelta.isZero();
+    if (unchanged) continue;
+
+    wallets.push({
+      wallet,
+      status: !a ? "new" : !b ? "dropped" : "changed",
+      rankBefore: rA,
+      rankAfter: rB,
+      rankChange,
+      buysBefore,
+      buysAfter,
+      buysDelta: buysAfter - buysBefore,
+      tokensClaimedDeltaRaw: tokensDelta.toString(),
+      tokensClaimedDelta: formatTokens(tokensDelta),
+    });
+  }
+
+  wallets.sort(
+    (x, y) =>
+      y.buysDelta - x.buysDelta ||
+      (x.rankAfter ?? Infinity) - (y.rankAfter ?? Infinity) ||
+      x.wallet.toLowerCase().localeCompare(y.wallet.toLowerCase())
+  );
+
+  const buysBefore = beforeRows.reduce((sum, r) => sum + r.totalBuys, 0);
+  const buysAfter = afterRows.reduce((sum, r) => sum + r.totalBuys, 0);
+  const tokensBefore = sumTokens(before.values());
+  const tokensAfter = sumTokens(after.values());
+
+  return {
+    totals: {
+      walletsBefore: before.size,
+      walletsAfter: after.size,
+      newWallets: wallets.filter((w) => w.status === "new").length,
+      droppedWallets: wallets.filter((w) => w.status === "dropped").length,
+      buysBefore,
+      buysAfter,
+      buysDelta: buysAfter - buysBefore,
+      tokensClaimedBeforeRaw: tokensBefore.toString(),
+      tokensClaimedAfterRaw: tokensAfter.toString(),
+      tokensClaimedDeltaRaw: tokensAfter.sub(tokensBefore).toString(),
+      tokensClaimedDelta: formatTokens(tokensAfter.sub(tokensBefore)),
+    },
+    wallets,
+  };
+}
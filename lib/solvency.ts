@@ -0,0 +1,178 @@
+import { ethers } from "ethers";
+import { SOLVENCY_LOOKBACK_DAYS, SOLVENCY_MIN_RUNWAY_DAYS } from "./config";
+import {
+  TBAG_DAILY_BUYS_ADDRESS,
+  TBAG_DECIMALS,
+  getTbagDailyBuysContract,
+  readWalletViews,
+} from "./contracts/tbagDailyFreeBuys";
+import { TBAG_TOKEN_ADDRESS, readTbagBalance } from "./contracts/tbagToken";
+import {
+  findFirstBlockAtOrAfter,
+  getBlockTimestamps,
+} from "./indexer/timestamps";
+import type { IndexState } from "./indexer/types";
+
+// ----------------------------------------
+// Types
+// ----------------------------------------
+
+// insolvent = balance can't cover what is already claimable,
+// low = it can, but runway is under the threshold
+export type SolvencyStatus = "ok" | "low" | "insolvent";
+
+// TBAG amounts are wei strings, with a *Formatted twin in whole TBAG
+export type SolvencyReport = {
+  contract: string;
+  token: string;
+  // Everything is read at the last indexed block
+  blockTag: number;
+  walletsChecked: number;
+  balance: string;
+  balanceFormatted: string;
+  outstanding: string;
+  outstandingFormatted: string;
+  // balance - outstanding (negative when insolvent)
+  surplus: string;
+  surplusFormatted: string;
+  payoutRate: {
+    fromBlock: number;
+    days: number;
+    buys: number;
+    tbagPerBuy: string;
+    tokensPerDay: string;
+    tokensPerDayFormatted: string;
+  };
+  // Days the surplus covers at payoutRate; null when there were no recent buys
+  runwayDays: number | null;
+  minRunwayDays: number;
+  status: SolvencyStatus;
+  warning: string | null;
+};
+
+export type SolvencyOptions = {
+  minRunwayDays?: number;
+  lookbackDays?: number;
+  // Calls per Multicall3 batch, 1 per wallet (default MULTICALL_BATCH_SIZE)
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+const SECONDS_PER_DAY = 86_400;
+
+const formatTbag = (wei: ethers.BigNumber) =>
+  ethers.utils.formatUnits(wei, TBAG_DECIMALS);
+
+// ----------------------------------------
+// Solvency: outstanding claimableTokens over every indexed wallet vs the
+// contract's TBAG balance, and how long the rest lasts at the recent
+// buy rate
+// ----------------------------------------
+export async function checkSolvency(
+  provider: ethers.providers.Provider,
+  state: IndexState,
+  options: SolvencyOptions = {}
+): Promise<SolvencyReport> {
+  const {
+    minRunwayDays = SOLVENCY_MIN_RUNWAY_DAYS,
+    lookbackDays = SOLVENCY_LOOKBACK_DAYS,
+    batchSize,
+    onProgress,
+  } = options;
+  const blockTag = state.lastIndexedBlock;
+  const contract = getTbagDailyBuysContract(provider);
+
+  const wallets = Array.from(new Set(state.buys.map((b) => b.wallet)));
+
+  const claimable = await readWalletViews(
+    provider,
+    wallets,
+    ["claimableTokens"],
+    { batchSize, blockTag, onProgress }
+  );
+  const outstanding = claimable.reduce(
+    (sum, views) => sum.add(views.claimableTokens),
+    ethers.constants.Zero
+  );
+
+  const [balance, tbagPerBuy] = await Promise.all([
+    readTbagBalance(provider, TBAG_DAILY_BUYS_ADDRESS, blockTag),
+    contract.tbagPerBuy({ blockTag }) as Promise<ethers.BigNumber>,
+  ]);
+  const surplus = balance.sub(outstanding);
+
+  // Payout rate: buys over the last lookbackDays (or since the index
+  // starts, if that is more recent) times the current tbagPerBuy
+  const endTs = (await getBlockTimestamps(provider, [blockTag])).get(
+    blockTag
+  ) as number;
+  const fromBlock = Math.min(
+    await findFirstBlockAtOrAfter(
+      provider,
+      endTs - lookbackDays * SECONDS_PER_DAY,
+      state.fromBlock,
+      blockTag
+    ),
+    blockTag
+  );
+  const startTs = (await getBlockTimestamps(provider, [fromBlock])).get(
+    fromBlock
+  ) as number;
+  const days = (endTs - startTs) / SECONDS_PER_DAY;
+  const recentBuys = state.buys.filter(
+    (b) => b.blockNumber >= fromBlock && b.blockNumber <= blockTag
+  ).length;
+
+  // Per-day rate in wei; milli-days keep the division in integers
+  const milliDays = Math.round(days * 1000);
+  const tokensPerDay =
+    milliDays > 0
+      ? tbagPerBuy.mul(recentBuys).mul(1000).div(milliDays)
+      : ethers.constants.Zero;
+
+  let runwayDays: number | null = null;
+  if (surplus.lte(0)) {
+    runwayDays = 0;
+  } else if (!tokensPerDay.isZero()) {
+    runwayDays = surplus.mul(1000).div(tokensPerDay).toNumber() / 1000;
+  }
+
+  let status: SolvencyStatus = "ok";
+  let warning: string | null = null;
+  if (surplus.lt(0)) {
+    status = "insolvent";
+    warning = `Contract holds ${formatTbag(balance)} TBAG but ${formatTbag(
+      outstanding
+    )} TBAG is already claimable; claims will fail until it is topped up`;
+  } else if (runwayDays !== null && runwayDays < minRunwayDays) {
+    status = "low";
+    warning = `Runway is ${runwayDays.toFixed(
+      1
+    )} days (threshold ${minRunwayDays}); top up before claims start failing`;
+  }
+
+  return {
+    contract: TBAG_DAILY_BUYS_ADDRESS,
+    token: TBAG_TOKEN_ADDRESS,
+    blockTag,
+    walletsChecked: wallets.length,
+    balance: balance.toString(),
+    balanceFormatted: formatTbag(balance),
+    outstanding: outstanding.toString(),
+    outstandingFormatted: formatTbag(outstanding),
+    surplus: surplus.toString(),
+    surplusFormatted: formatTbag(surplus),
+    payoutRate: {
+      fromBlock,
+      days: milliDays / 1000,
+      buys: recentBuys,
+      tbagPerBuy: tbagPerBuy.toString(),
+      tokensPerDay: tokensPerDay.toString(),
+      tokensPerDayFormatted: formatTbag(tokensPerDay),
+    },
+    runwayDays,
+    minRunwayDays,
+    status,
+    warning,
+  };
+}
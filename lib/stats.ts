@@ -0,0 +1,82 @@
+import { ethers } from "ethers";
+import { readTbagPerBuy } from "./contracts/tbagDailyFreeBuys";
+import { syncIndex } from "./indexer/sync";
+import type { IndexState } from "./indexer/types";
+import { aggregateWallets, type LeaderboardRow } from "./leaderboard";
+import { getLineaProvider } from "./rpc";
+import {
+  resolveWindow,
+  sliceIndexState,
+  type ResolvedWindow,
+  type WindowSpec,
+} from "./windows";
+
+export type IndexedStats = {
+  state: IndexState;
+  tbagPerBuy: ethers.BigNumber;
+  // Every wallet's all-time totals, unsorted
+  rows: LeaderboardRow[];
+};
+
+// ----------------------------------------
+// Simple in-memory cache (per serverless instance)
+// ----------------------------------------
+let cachedStats: IndexedStats | null = null;
+let cachedAt = 0;
+const CACHE_TTL_MS = 30_000; // 30 seconds
+
+// ----------------------------------------
+// Core: sync the Buy/Claim index (new blocks only) and aggregate per wallet
+// ----------------------------------------
+async function fetchStatsFromChain(): Promise<IndexedStats> {
+  const [state, tbagPerBuy] = await Promise.all([
+    syncIndex(),
+    readTbagPerBuy(getLineaProvider()),
+  ]);
+
+  const rows = aggregateWallets(state, tbagPerBuy);
+
+  console.log(
+    `Stats built from ${rows.length} unique addresses, indexed to block ${state.lastIndexedBlock}`
+  );
+
+  return { state, tbagPerBuy, rows };
+}
+
+// Serve from cache if still fresh, otherwise refresh from chain
+export async function loadIndexedStats(): Promise<IndexedStats> {
+  if (cachedStats && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cachedStats;
+  }
+
+  const stats = await fetchStatsFromChain();
+  cachedStats = stats;
+  cachedAt = Date.now();
+  return stats;
+}
+
+// Last good stats (possibly stale), for serving when a refresh fails
+export function getCachedStats(): IndexedStats | null {
+  return cachedStats;
+}
+
+// ----------------------------------------
+// Windowed totals: same aggregation, restricted to a block/time window
+// ----------------------------------------
+export async function windowedRows(
+  stats: IndexedStats,
+  spec: WindowSpec
+): Promise<{ rows: LeaderboardRow[]; window: ResolvedWindow }> {
+  const provider = getLineaProvider();
+  const window = await resolveWindow(provider, stats.state, spec);
+
+  const isAllTime =
+    window.fromBlock <= stats.state.fromBlock &&
+    window.toBlock >= stats.state.lastIndexedBlock;
+
+  const rows = isAllTime
+    ? stats.rows
+    : aggregateWallets(sliceIndexState(stats.state, window), stats.tbagPerBuy);
+
+  return { rows, window };
+}
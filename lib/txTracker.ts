@@ -0,0 +1,303 @@
+import { ethers } from "ethers";
+import { getLineaProvider } from "./rpc";
+
+// ----------------------------------------
+// Transaction tracker: buy / claim / reward txs persisted in localStorage
+// and watched until they settle, so a reload mid-confirmation picks up
+// where it left off. Browser-only; read with useSyncExternalStore.
+// ----------------------------------------
+
+export type TrackedTxKind = "buy" | "claim" | "reward";
+
+// replaced = same nonce mined with a different call (not a speed-up or
+// a cancel); dropped = gone from the node with its nonce still unused
+export type TrackedTxStatus =
+  | "pending"
+  | "confirmed"
+  | "failed"
+  | "cancelled"
+  | "replaced"
+  | "dropped";
+
+export type TrackedTx = {
+  hash: string;
+  kind: TrackedTxKind;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: string;
+  // Head when submitted; replacements are searched from here
+  startBlock: number;
+  // ms since epoch
+  submittedAt: number;
+  status: TrackedTxStatus;
+  // Hash that actually got mined when the wallet sped up / cancelled it
+  replacedBy: string | null;
+  blockNumber: number | null;
+};
+
+const STORAGE_KEY = "tbag:transactions";
+const MAX_TRACKED = 20;
+const POLL_INTERVAL_MS = 4_000;
+// Unknown to the node for this long with the nonce unused = dropped
+const DROPPED_AFTER_MS = 30 * 60_000;
+// Blocks after startBlock searched for the nonce when the node has no
+// historical getTransactionCount
+const NONCE_SCAN_BLOCKS = 1_000;
+
+// ----------------------------------------
+// Store
+// ----------------------------------------
+const EMPTY: TrackedTx[] = [];
+let tracked: TrackedTx[] | null = null;
+const listeners = new Set<() => void>();
+
+function readStorage(): TrackedTx[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TrackedTx[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function update(fn: (list: TrackedTx[]) => TrackedTx[]) {
+  tracked = fn(getTrackedTransactions()).slice(0, MAX_TRACKED);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tracked));
+  } catch {
+    // Storage full / disabled: keep tracking in memory
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// Newest first
+export function getTrackedTransactions(): TrackedTx[] {
+  if (typeof window === "undefined") return EMPTY;
+  if (tracked === null) tracked = readStorage();
+  return tracked;
+}
+
+// For useSyncExternalStore: nothing is stored server-side
+export function getServerTrackedTransactions(): TrackedTx[] {
+  return EMPTY;
+}
+
+export function subscribeTrackedTransactions(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Drops settled txs; pending ones keep being watched
+export function clearSettledTransactions() {
+  update((list) => list.filter((t) => t.status === "pending"));
+}
+
+// ----------------------------------------
+// Watching
+// ----------------------------------------
+const watchers = new Map<string, Promise<TrackedTx>>();
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// First block at which `from` had used `nonce`, via binary search over
+// getTransactionCount. Throws when the node can't serve historical state.
+async function findNonceBlock(
+  provider: ethers.providers.Provider,
+  tx: TrackedTx,
+  head: number
+): Promise<number> {
+  let lo = Math.min(tx.startBlock, head);
+  let hi = head;
+  // Already used before we recorded startBlock: search the whole chain
+  if (
+    lo > 0 &&
+    (await provider.getTransactionCount(tx.from, lo - 1)) > tx.nonce
+  ) {
+    lo = 0;
+  }
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    const count = await provider.getTransactionCount(tx.from, mid);
+    if (count > tx.nonce) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return lo;
+}
+
+async function findSenderTx(
+  provider: ethers.providers.Provider,
+  tx: TrackedTx,
+  blockNumber: number
+): Promise<ethers.providers.TransactionResponse | null> {
+  const block = await provider.getBlockWithTransactions(blockNumber);
+  return (
+    block?.transactions.find(
+      (t) =>
+        t.from.toLowerCase() === tx.from.toLowerCase() && t.nonce === tx.nonce
+    ) ?? null
+  );
+}
+
+// Whatever mined tx.nonce, or null when it couldn't be found (the caller
+// keeps the tx pending and looks again on the next poll)
+async function findReplacement(
+  provider: ethers.providers.Provider,
+  tx: TrackedTx,
+  head: number
+): Promise<ethers.providers.TransactionResponse | null> {
+  let blockNumber: number;
+  try {
+    blockNumber = await findNonceBlock(provider, tx, head);
+  } catch {
+    // No archive state (or a failed lookup): walk the blocks since submit
+    const last = Math.min(head, tx.startBlock + NONCE_SCAN_BLOCKS - 1);
+    for (let n = tx.startBlock; n <= last; n++) {
+      const found = await findSenderTx(provider, tx, n);
+      if (found) return found;
+    }
+    return null;
+  }
+  return findSenderTx(provider, tx, blockNumber);
+}
+
+const fromReceipt = (
+  tx: TrackedTx,
+  receipt: ethers.providers.TransactionReceipt
+): TrackedTx => ({
+  ...tx,
+  status: receipt.status === 1 ? "confirmed" : "failed",
+  blockNumber: receipt.blockNumber,
+});
+
+// Settled state of tx, or null while it is still pending (or while what
+// happened to it can't be determined yet)
+export async function checkTransaction(
+  provider: ethers.providers.Provider,
+  tx: TrackedTx
+): Promise<TrackedTx | null> {
+  const receipt = await provider.getTransactionReceipt(tx.hash);
+  if (receipt) return fromReceipt(tx, receipt);
+
+  const head = await provider.getBlockNumber();
+  const minedNonce = await provider.getTransactionCount(tx.from, head);
+  if (minedNonce <= tx.nonce) {
+    if (
+      Date.now() - tx.submittedAt > DROPPED_AFTER_MS &&
+      !(await provider.getTransaction(tx.hash))
+    ) {
+      return { ...tx, status: "dropped" };
+    }
+    return null;
+  }
+
+  // Nonce is used: ours may have landed between the two calls
+  const lateReceipt = await provider.getTransactionReceipt(tx.hash);
+  if (lateReceipt) return fromReceipt(tx, lateReceipt);
+
+  const replacement = await findReplacement(provider, tx, head);
+  if (!replacement) return null;
+
+  const replacementReceipt = await provider.getTransactionReceipt(
+    replacement.hash
+  );
+  const settled = {
+    ...tx,
+    replacedBy: replacement.hash,
+    blockNumber:
+      replacementReceipt?.blockNumber ?? replacement.blockNumber ?? null,
+  };
+
+  // Sped up: same call at a higher fee, so it counts as ours
+  if (
+    replacement.to?.toLowerCase() === tx.to?.toLowerCase() &&
+    replacement.data === tx.data &&
+    replacement.value.eq(tx.value)
+  ) {
+    return {
+      ...settled,
+      status: replacementReceipt?.status === 0 ? "failed" : "confirmed",
+    };
+  }
+
+  // Cancelled: wallets send 0 ETH to self with no data
+  if (
+    replacement.to?.toLowerCase() === tx.from.toLowerCase() &&
+    replacement.data === "0x"
+  ) {
+    return { ...settled, status: "cancelled" };
+  }
+
+  return { ...settled, status: "replaced" };
+}
+
+function watch(tx: TrackedTx): Promise<TrackedTx> {
+  const existing = watchers.get(tx.hash);
+  if (existing) return existing;
+
+  const watcher = (async () => {
+    const provider = getLineaProvider();
+    for (;;) {
+      try {
+        const settled = await checkTransaction(provider, tx);
+        if (settled) {
+          update((list) =>
+            list.map((t) => (t.hash === tx.hash ? settled : t))
+          );
+          return settled;
+        }
+      } catch (err) {
+        console.warn(`Tx ${tx.hash} check failed, retrying:`, err);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  })();
+
+  watchers.set(tx.hash, watcher);
+  watcher.finally(() => watchers.delete(tx.hash));
+  return watcher;
+}
+
+// ----------------------------------------
+// Record a just-sent tx and resolve once it settles (instead of
+// tx.wait(), which can't survive a reload or follow a replacement)
+// ----------------------------------------
+export async function trackTransaction(
+  response: ethers.providers.TransactionResponse,
+  kind: TrackedTxKind
+): Promise<TrackedTx> {
+  const startBlock = await getLineaProvider()
+    .getBlockNumber()
+    .catch(() => 0);
+
+  const tx: TrackedTx = {
+    hash: response.hash,
+    kind,
+    from: response.from,
+    nonce: response.nonce,
+    to: response.to ?? null,
+    data: response.data,
+    value: response.value.toString(),
+    startBlock,
+    submittedAt: Date.now(),
+    status: "pending",
+    replacedBy: null,
+    blockNumber: null,
+  };
+
+  update((list) => [tx, ...list.filter((t) => t.hash !== tx.hash)]);
+  return watch(tx);
+}
+
+// Pick pending txs from a previous page load back up
+export function resumePendingTransactions() {
+  for (const tx of getTrackedTransactions()) {
+    if (tx.status === "pending") watch(tx).catch(console.error);
+  }
+}
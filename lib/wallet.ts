@@ -0,0 +1,99 @@
+import { ethers } from "ethers";
+import { TBAG_DECIMALS } from "./contracts/tbagDailyFreeBuys";
+import { getBlockTimestamps } from "./indexer/timestamps";
+import { sortLeaderboard, type LeaderboardRow } from "./leaderboard";
+import type { IndexedStats } from "./stats";
+
+// ----------------------------------------
+// Types
+// ----------------------------------------
+
+type WalletEventBase = {
+  blockNumber: number;
+  // Unix seconds
+  timestamp: number | null;
+  txHash: string;
+  logIndex: number;
+};
+
+export type WalletEvent =
+  | (WalletEventBase & {
+      type: "buy";
+      userTotalBuys: number;
+      buysInCurrentWindow: number;
+    })
+  | (WalletEventBase & {
+      type: "claim";
+      buysClaimed: number;
+      tokensPaidRaw: string;
+      tokensPaid: string;
+    });
+
+export type WalletProfile = {
+  wallet: string;
+  // Rank by total buys; null when the wallet has no indexed activity
+  rank: number | null;
+  totalWallets: number;
+  totals: LeaderboardRow | null;
+  indexedToBlock: number;
+  // Oldest first
+  events: WalletEvent[];
+};
+
+// ----------------------------------------
+// Build a wallet's rank, totals and Buy/Claim timeline from indexed stats
+// ----------------------------------------
+export async function buildWalletProfile(
+  provider: ethers.providers.Provider,
+  stats: IndexedStats,
+  wallet: string
+): Promise<WalletProfile> {
+  const checksummed = ethers.utils.getAddress(wallet);
+  const { state, rows } = stats;
+
+  const ranked = sortLeaderboard(rows, "buys");
+  const idx = ranked.findIndex((r) => r.wallet === checksummed);
+
+  const buys = state.buys.filter((e) => e.wallet === checksummed);
+  const claims = state.claims.filter((e) => e.wallet === checksummed);
+
+  const timestamps = await getBlockTimestamps(
+    provider,
+    [...buys, ...claims].map((e) => e.blockNumber)
+  );
+
+  const events: WalletEvent[] = [
+    ...buys.map(
+      (e): WalletEvent => ({
+        type: "buy",
+        blockNumber: e.blockNumber,
+        timestamp: timestamps.get(e.blockNumber) ?? null,
+        txHash: e.txHash,
+        logIndex: e.logIndex,
+        userTotalBuys: e.userTotalBuys,
+        buysInCurrentWindow: e.buysInCurrentWindow,
+      })
+    ),
+    ...claims.map(
+      (e): WalletEvent => ({
+        type: "claim",
+        blockNumber: e.blockNumber,
+        timestamp: timestamps.get(e.blockNumber) ?? null,
+        txHash: e.txHash,
+        logIndex: e.logIndex,
+        buysClaimed: e.buysClaimed,
+        tokensPaidRaw: e.tokensPaid,
+        tokensPaid: ethers.utils.formatUnits(e.tokensPaid, TBAG_DECIMALS),
+      })
+    ),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  return {
+    wallet: checksummed,
+    rank: idx === -1 ? null : idx + 1,
+    totalWallets: ranked.length,
+    totals: idx === -1 ? null : ranked[idx],
+    indexedToBlock: state.lastIndexedBlock,
+    events,
+  };
+}
@@ -0,0 +1,199 @@
+import { ethers } from "ethers";
+import { findFirstBlockAtOrAfter } from "./indexer/timestamps";
+import type { IndexState } from "./indexer/types";
+
+// ----------------------------------------
+// Types
+// ----------------------------------------
+
+// today = since 00:00 UTC, week = since Monday 00:00 UTC
+export const NAMED_WINDOWS = ["all", "today", "week"] as const;
+export type NamedWindow = (typeof NAMED_WINDOWS)[number];
+
+// What the caller asked for: a named window or explicit bounds
+export type WindowSpec =
+  | { kind: "named"; name: NamedWindow }
+  | {
+      kind: "range";
+      by: "time" | "block";
+      // unix seconds or block numbers, both inclusive
+      from: number | null;
+      to: number | null;
+    };
+
+// What it resolves to against the index
+export type ResolvedWindow = {
+  name: NamedWindow | "custom";
+  fromBlock: number;
+  toBlock: number;
+  // unix seconds of the window bounds, when known
+  fromTime: number | null;
+  toTime: number | null;
+};
+
+export type BlockRange = { fromBlock: number; toBlock: number };
+
+// ----------------------------------------
+// Parsing: ?window=today|week|all, or ?from=&to=[&by=time|block]
+// Time values are unix seconds or ISO 8601 dates.
+// ----------------------------------------
+function parseBound(value: string | null, by: "time" | "block") {
+  if (value === null || value === "") return null;
+
+  if (/^\d+$/.test(value)) return Number(value);
+  if (by === "time") {
+    const ms = Date.parse(value);
+    if (!Number.isNaN(ms)) return Math.floor(ms / 1000);
+  }
+  return undefined;
+}
+
+export function parseWindowSpec(
+  searchParams: URLSearchParams
+): WindowSpec | { error: string } {
+  const name = searchParams.get("window");
+  const rawFrom = searchParams.get("from");
+  const rawTo = searchParams.get("to");
+
+  if (name && (rawFrom || rawTo)) {
+    return { error: "Use either window or from/to, not both" };
+  }
+
+  if (!rawFrom && !rawTo) {
+    const windowName = name ?? "all";
+    if (!(NAMED_WINDOWS as readonly string[]).includes(windowName)) {
+      return {
+        error: `Invalid window. Use one of: ${NAMED_WINDOWS.join(", ")}`,
+      };
+    }
+    return { kind: "named", name: windowName as NamedWindow };
+  }
+
+  const by = searchParams.get("by") ?? "time";
+  if (by !== "time" && by !== "block") {
+    return { error: "Invalid by. Use time or block" };
+  }
+
+  const from = parseBound(rawFrom, by);
+  const to = parseBound(rawTo, by);
+  if (from === undefined || to === undefined) {
+    return {
+      error:
+        by === "time"
+          ? "Invalid from/to (expected unix seconds or ISO date)"
+          : "Invalid from/to (expected block numbers)",
+    };
+  }
+  if (from !== null && to !== null && from > to) {
+    return { error: "from must not be after to" };
+  }
+
+  return { kind: "range", by, from, to };
+}
+
+// ----------------------------------------
+// Resolution: turn a spec into an inclusive block range inside the index
+// ----------------------------------------
+export function namedWindowStart(name: NamedWindow, now: Date): number | null {
+  if (name === "all") return null;
+
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+  if (name === "week") {
+    // getUTCDay: 0 = Sunday → Monday-based week
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return Math.floor(start.getTime() / 1000);
+}
+
+// Block lookups for a given timestamp never change once the block is
+// confirmed, so keep them for the life of the instance
+const resolvedTimeCache = new Map<string, number>();
+
+async function firstBlockAtOrAfterTime(
+  provider: ethers.providers.Provider,
+  ts: number,
+  state: IndexState
+): Promise<number> {
+  const lo = state.fromBlock;
+  const hi = state.lastIndexedBlock;
+  const key = `${ts}:${lo}`;
+
+  const cached = resolvedTimeCache.get(key);
+  if (cached !== undefined && cached <= hi) return cached;
+
+  const block = await findFirstBlockAtOrAfter(provider, ts, lo, hi);
+  // Only cache hits inside the index; a miss may move as the index grows
+  if (block <= hi) resolvedTimeCache.set(key, block);
+  return block;
+}
+
+export async function resolveWindow(
+  provider: ethers.providers.Provider,
+  state: IndexState,
+  spec: WindowSpec,
+  now = new Date()
+): Promise<ResolvedWindow> {
+  const indexed: BlockRange = {
+    fromBlock: state.fromBlock,
+    toBlock: state.lastIndexedBlock,
+  };
+
+  if (spec.kind === "named") {
+    const start = namedWindowStart(spec.name, now);
+    const fromBlock =
+      start === null
+        ? indexed.fromBlock
+        : await firstBlockAtOrAfterTime(provider, start, state);
+    return {
+      name: spec.name,
+      fromBlock,
+      toBlock: indexed.toBlock,
+      fromTime: start,
+      toTime: null,
+    };
+  }
+
+  if (spec.by === "block") {
+    return {
+      name: "custom",
+      fromBlock: Math.max(spec.from ?? indexed.fromBlock, indexed.fromBlock),
+      toBlock: Math.min(spec.to ?? indexed.toBlock, indexed.toBlock),
+      fromTime: null,
+      toTime: null,
+    };
+  }
+
+  // to is inclusive: last block before (to + 1)
+  const fromBlock =
+    spec.from === null
+      ? indexed.fromBlock
+      : await firstBlockAtOrAfterTime(provider, spec.from, state);
+  const toBlock =
+    spec.to === null
+      ? indexed.toBlock
+      : (await firstBlockAtOrAfterTime(provider, spec.to + 1, state)) - 1;
+
+  return {
+    name: "custom",
+    fromBlock,
+    toBlock,
+    fromTime: spec.from,
+    toTime: spec.to,
+  };
+}
+
+// Filter indexed events down to a block range
+export function sliceIndexState(
+  state: Pick<IndexState, "buys" | "claims">,
+  range: BlockRange
+): Pick<IndexState, "buys" | "claims"> {
+  const inRange = (e: { blockNumber: number }) =>
+    e.blockNumber >= range.fromBlock && e.blockNumber <= range.toBlock;
+  return {
+    buys: state.buys.filter(inRange),
+    claims: state.claims.filter(inRange),
+  };
+}
@@ -0,0 +1,174 @@
+// scripts/cli.ts (run with `npm run cli -- <command> [flags]`)
+
+import { parseArgs } from "util";
+import type { CliOptions } from "./cli/options";
+
+const COMMANDS = [
+  "export",
+  "leaderboard",
+  "wallet",
+  "snapshot",
+  "diff",
+  "rewards",
+  "audit",
+  "solvency",
+] as const;
+type Command = (typeof COMMANDS)[number];
+
+const USAGE = `Usage: npm run cli -- <command> [args] [flags]
+
+Commands:
+  export               Scan Buy/Claim logs and write per-wallet totals
+  leaderboard          Top wallets from the index (--sort, --limit)
+  wallet <address>     Rank, totals and timeline for one wallet
+  snapshot             Deterministic per-wallet snapshot at --to (+ manifest)
+  snapshot verify <csv> [manifest]
+                       Check a snapshot against its manifest
+  diff <a> <b>         Compare standings; each side is a block or a CSV export
+  rewards <block|csv>  Tiered bonus allocation + Merkle distribution (--config)
+  audit [wallet ...]   Cross-check the index against on-chain counters
+  solvency             Outstanding claimable TBAG vs the contract's balance
+
+Flags:
+  --contract <address>   TbagDailyFreeBuys address (NEXT_PUBLIC_TBAG_DAILY_BUYS_ADDRESS)
+  --rpc <url[,url]>      RPC endpoints (LINEA_RPC_URLS)
+  --from <block>         First block of the range (inclusive)
+  --to <block>           Last block of the range (inclusive)
+  --out <path>           Output file ("-" for stdout)
+  --data-dir <dir>       Index / cache directory (INDEXER_DATA_DIR)
+  --confirmations <n>    Blocks to stay behind the head
+  --sort <sort>          leaderboard: buys | claimed | unclaimed
+  --limit <n>            leaderboard: rows to print (default 50)
+  --format <format>      export: csv | json | ndjson | markdown (default csv)
+  --meta                 export: include a metadata header
+  --fresh                export: ignore a saved checkpoint and start over
+  --config <path>        rewards: tier config JSON
+  --batch-size <n>       audit, solvency: calls (not wallets) per Multicall3 batch,
+                         default 200; audit makes 2 calls per wallet, solvency 1
+  -h, --help             Show this help
+`;
+
+function parseBlock(name: string, value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return n;
+}
+
+// ----------------------------------------
+// Connection flags map onto the env vars the lib modules read at load
+// time, so they must be applied before any command module is imported
+// ----------------------------------------
+function applyEnvOverrides(values: {
+  contract?: string;
+  rpc?: string;
+  "data-dir"?: string;
+  confirmations?: string;
+}) {
+  if (values.contract) {
+    process.env.NEXT_PUBLIC_TBAG_DAILY_BUYS_ADDRESS = values.contract;
+  }
+  if (values.rpc) process.env.LINEA_RPC_URLS = values.rpc;
+  if (values["data-dir"]) process.env.INDEXER_DATA_DIR = values["data-dir"];
+  if (values.confirmations) {
+    parseBlock("confirmations", values.confirmations);
+    process.env.INDEXER_CONFIRMATIONS = values.confirmations;
+    process.env.EXPORT_CONFIRMATIONS = values.confirmations;
+  }
+}
+
+async function loadCommand(
+  command: Command
+): Promise<(options: CliOptions) => Promise<void>> {
+  switch (command) {
+    case "export":
+      return (await import("./cli/export")).run;
+    case "leaderboard":
+      return (await import("./cli/leaderboard")).run;
+    case "wallet":
+      return (await import("./cli/wallet")).run;
+    case "snapshot":
+      return (await import("./cli/snapshot")).run;
+    case "diff":
+      return (await import("./cli/diff")).run;
+    case "rewards":
+      return (await import("./cli/rewards")).run;
+    case "audit":
+      return (await import("./cli/audit")).run;
+    case "solvency":
+      return (await import("./cli/solvency")).run;
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      contract: { type: "string" },
+      rpc: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      out: { type: "string" },
+      "data-dir": { type: "string" },
+      confirmations: { type: "string" },
+      sort: { type: "string" },
+      limit: { type: "string" },
+      format: { type: "string" },
+      meta: { type: "boolean" },
+      fresh: { type: "boolean" },
+      config: { type: "string" },
+      "batch-size": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!COMMANDS.includes(command as Command)) {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (values.contract && !/^0x[0-9a-fA-F]{40}$/.test(values.contract)) {
+    throw new Error(`Invalid --contract: ${values.contract}`);
+  }
+
+  const options: CliOptions = {
+    args,
+    from: parseBlock("from", values.from),
+    to: parseBlock("to", values.to),
+    out: values.out ?? null,
+    sort: values.sort ?? null,
+    limit: parseBlock("limit", values.limit),
+    format: values.format ?? null,
+    meta: values.meta ?? false,
+    fresh: values.fresh ?? false,
+    config: values.config ?? null,
+    batchSize: parseBlock("batch-size", values["batch-size"]),
+  };
+  if (options.batchSize === 0) {
+    throw new Error("--batch-size must be at least 1");
+  }
+  if (options.from !== null && options.to !== null && options.from > options.to) {
+    throw new Error("--from must not be after --to");
+  }
+
+  applyEnvOverrides(values);
+
+  // Keep stdout clean for piping: progress logs go to stderr
+  if (options.out === "-") console.log = console.error;
+
+  const run = await loadCommand(command as Command);
+  await run(options);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import { auditIndex } from "../../lib/audit";
+import { syncIndex } from "../../lib/indexer/sync";
+import { LINEA_RPC_URLS, getLineaProvider } from "../../lib/rpc";
+import { writeOutputFile, type CliOptions } from "./options";
+
+// ----------------------------------------
+// audit [wallet ...]: cross-check the index against on-chain counters.
+// Sets exit code 1 when anything disagrees.
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const wallets = options.args;
+
+  console.log("Using RPCs:", LINEA_RPC_URLS.join(", "));
+  const provider = getLineaProvider();
+
+  console.log("Syncing index...");
+  const state = await syncIndex();
+  console.log(
+    `Indexed blocks ${state.fromBlock} -> ${state.lastIndexedBlock}: ${state.buys.length} buys, ${state.claims.length} claims`
+  );
+
+  const report = await auditIndex(provider, state, {
+    wallets: wallets.length > 0 ? wallets : undefined,
+    batchSize: options.batchSize ?? undefined,
+    onProgress: (done, total) => {
+      if (done === total || done % 500 === 0) {
+        console.log(`  Checked ${done}/${total} wallets`);
+      }
+    },
+  });
+
+  console.log(
+    `Global: indexed ${report.global.indexedBuys} buys, totalBuysGlobal() = ${report.global.onChainTotalBuysGlobal}` +
+      (report.global.match ? "" : "  <-- MISMATCH")
+  );
+
+  for (const m of report.mismatches) {
+    console.log(
+      `  ${m.wallet} ${m.field}: indexed ${m.indexed}, on-chain ${m.onChain}`
+    );
+  }
+  for (const gap of report.sequenceGaps) {
+    console.log(
+      `  ${gap.wallet} missing userTotalBuys ${gap.missing.join(", ")} (blocks ${gap.fromBlock} -> ${gap.toBlock})`
+    );
+  }
+  for (const dup of report.duplicates) {
+    console.log(
+      `  ${dup.wallet} duplicate userTotalBuys ${dup.userTotalBuys}: ${dup.txHashes.join(", ")}`
+    );
+  }
+
+  console.log(
+    `Checked ${report.walletsChecked} wallets at block ${report.blockTag}: ` +
+      `${report.mismatches.length} mismatches, ${report.sequenceGaps.length} gaps, ${report.duplicates.length} duplicates`
+  );
+
+  if (options.out) {
+    const outPath = writeOutputFile(options.out, JSON.stringify(report, null, 2));
+    console.log("Wrote:", outPath);
+  }
+
+  console.log(report.ok ? "OK" : "AUDIT FAILED");
+  if (!report.ok) process.exitCode = 1;
+}
@@ -0,0 +1,63 @@
+import type { IndexState } from "../../lib/indexer/types";
+import { syncIndex } from "../../lib/indexer/sync";
+import { diffSnapshots } from "../../lib/snapshotDiff";
+import { loadWalletTotals, writeOutputFile, type CliOptions } from "./options";
+
+// Rows printed to the console (--out gets every changed wallet)
+const PRINT_LIMIT = 25;
+
+// ----------------------------------------
+// diff <before> <after>: each side is a block height or an exported /
+// snapshot CSV; reports new wallets, rank moves and buy / claim deltas
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const [beforeSpec, afterSpec] = options.args;
+  if (!beforeSpec || !afterSpec) {
+    throw new Error("Usage: diff <block|file.csv> <block|file.csv>");
+  }
+
+  let state: Promise<IndexState> | null = null;
+  const getState = () => (state ??= syncIndex());
+
+  const diff = diffSnapshots(
+    await loadWalletTotals(beforeSpec, getState),
+    await loadWalletTotals(afterSpec, getState)
+  );
+  const { totals } = diff;
+
+  console.log(`Diff ${beforeSpec} -> ${afterSpec}`);
+  console.log(
+    `  Wallets: ${totals.walletsBefore} -> ${totals.walletsAfter} (${totals.newWallets} new, ${totals.droppedWallets} dropped)`
+  );
+  console.log(
+    `  Buys:    ${totals.buysBefore} -> ${totals.buysAfter} (${totals.buysDelta >= 0 ? "+" : ""}${totals.buysDelta})`
+  );
+  console.log(`  Claimed: ${totals.tokensClaimedDelta} TBAG`);
+
+  for (const w of diff.wallets.slice(0, PRINT_LIMIT)) {
+    const rank =
+      w.status === "new"
+        ? `new at #${w.rankAfter}`
+        : w.status === "dropped"
+          ? `dropped from #${w.rankBefore}`
+          : `#${w.rankBefore} -> #${w.rankAfter}`;
+    console.log(
+      `  ${w.wallet}  ${rank}  buys ${w.buysBefore} -> ${w.buysAfter}  claimed ${w.tokensClaimedDelta}`
+    );
+  }
+  if (diff.wallets.length > PRINT_LIMIT) {
+    console.log(`  … ${diff.wallets.length - PRINT_LIMIT} more (use --out)`);
+  }
+
+  if (options.out) {
+    const outPath = writeOutputFile(
+      options.out,
+      JSON.stringify(
+        { before: beforeSpec, after: afterSpec, ...diff },
+        null,
+        2
+      ) + "\n"
+    );
+    console.log("Wrote:", outPath);
+  }
+}
@@ -0,0 +1,216 @@
+import { ethers } from "ethers";
+import {
+  BUY_TOPIC,
+  CLAIM_TOPIC,
+  TBAG_DAILY_BUYS_ADDRESS,
+  TBAG_DECIMALS,
+  decodeTbagLogs,
+} from "../../lib/contracts/tbagDailyFreeBuys";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_EXTENSIONS,
+  WALLET_TOTALS_COLUMNS,
+  formatExport,
+  parseExportFormat,
+  type WalletTotals,
+} from "../../lib/exportFormats";
+import { getScanStartBlock } from "../../lib/indexer/deployBlock";
+import { scanLogsAdaptive } from "../../lib/indexer/logs";
+import { LINEA_RPC_URLS, getLineaProvider } from "../../lib/rpc";
+import {
+  deleteExportCheckpoint,
+  exportCheckpointPath,
+  loadExportCheckpoint,
+  newExportCheckpoint,
+  saveExportCheckpoint,
+  type ExportCheckpoint,
+} from "./exportCheckpoint";
+import { writeOutputFile, type CliOptions } from "./options";
+
+// ----------------------
+// Config
+// ----------------------
+
+// Starting chunk size (blocks); grows/shrinks with the number of logs returned
+const INITIAL_BLOCK_CHUNK = 5000;
+
+// Blocks to stay behind the head so orphaned buys don't end up in the export
+const CONFIRMATIONS = Number(process.env.EXPORT_CONFIRMATIONS || 10);
+
+const DEFAULT_OUT_BASENAME = "exported-buys-and-claims";
+
+// ----------------------------------------
+// Resume a matching checkpoint (same contract and range, end block still
+// canonical) or start a new one
+// ----------------------------------------
+async function openCheckpoint(
+  provider: ethers.providers.Provider,
+  contractAddress: string,
+  firstBlock: number,
+  options: CliOptions
+): Promise<ExportCheckpoint> {
+  const saved = options.fresh
+    ? null
+    : await loadExportCheckpoint(contractAddress);
+
+  if (
+    saved &&
+    saved.fromBlock === firstBlock &&
+    (options.to === null || options.to === saved.toBlock)
+  ) {
+    const hash = (await provider.getBlock(saved.toBlock))?.hash;
+    if (hash === saved.toBlockHash) {
+      console.log(
+        `Resuming export from block ${saved.nextBlock} (checkpoint ${exportCheckpointPath(contractAddress)})`
+      );
+      return saved;
+    }
+    console.warn(
+      `Block ${saved.toBlock} was reorged since the checkpoint; starting over`
+    );
+  } else if (saved) {
+    console.log("Checkpoint is for a different block range; starting over");
+  }
+
+  const headBlock = await provider.getBlockNumber();
+  const latestBlock = Math.min(
+    options.to ?? Number.MAX_SAFE_INTEGER,
+    headBlock - CONFIRMATIONS
+  );
+  console.log(
+    `Head block: ${headBlock}, exporting up to ${latestBlock} (${CONFIRMATIONS} confirmations)`
+  );
+  if (firstBlock > latestBlock) {
+    throw new Error(`Empty block range ${firstBlock} -> ${latestBlock}`);
+  }
+
+  // Remember the hash of the last exported block to detect reorgs mid-run
+  const latestBlockHash = (await provider.getBlock(latestBlock)).hash;
+
+  return newExportCheckpoint(
+    contractAddress,
+    firstBlock,
+    latestBlock,
+    latestBlockHash,
+    INITIAL_BLOCK_CHUNK
+  );
+}
+
+// ----------------------------------------
+// export: scan Buy/Claim logs straight from the chain and write per-wallet
+// totals as CSV / JSON / NDJSON / Markdown. Progress is checkpointed after
+// every chunk; re-running the same command resumes (--fresh to restart).
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const format = parseExportFormat(options.format);
+  if (!format) {
+    throw new Error(`Invalid --format. Use one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  // Pooled provider: retries transient errors and rotates LINEA_RPC_URLS
+  console.log("Using RPCs:", LINEA_RPC_URLS.join(", "));
+  const provider = getLineaProvider();
+  const contractAddress = TBAG_DAILY_BUYS_ADDRESS;
+
+  // --from, else LEADERBOARD_FROM_BLOCK, else the (cached) deployment block
+  const firstBlock =
+    options.from ?? (await getScanStartBlock(provider, contractAddress));
+
+  const checkpoint = await openCheckpoint(
+    provider,
+    contractAddress,
+    firstBlock,
+    options
+  );
+  const { wallets } = checkpoint;
+
+  // 1) Scan Buy + Claim events in one pass
+  console.log(
+    `Scanning ${contractAddress} Buy/Claim logs, blocks ${checkpoint.nextBlock} -> ${checkpoint.toBlock}`
+  );
+  await scanLogsAdaptive(
+    provider,
+    contractAddress,
+    [[BUY_TOPIC, CLAIM_TOPIC]],
+    checkpoint.nextBlock,
+    checkpoint.toBlock,
+    async ({ fromBlock, toBlock, logs, nextChunkSize }) => {
+      const { buys, claims } = decodeTbagLogs(logs);
+      const totalsFor = (wallet: string) =>
+        (wallets[wallet] ??= {
+          buys: 0,
+          claimTxs: 0,
+          buysClaimed: 0,
+          tokensClaimedRaw: "0",
+        });
+
+      for (const buy of buys) {
+        totalsFor(buy.wallet).buys += 1;
+      }
+
+      for (const claim of claims) {
+        const totals = totalsFor(claim.wallet);
+        totals.claimTxs += 1;
+        totals.buysClaimed += claim.buysClaimed;
+        totals.tokensClaimedRaw = ethers.BigNumber.from(totals.tokensClaimedRaw)
+          .add(claim.tokensPaid)
+          .toString();
+      }
+
+      console.log(
+        `  blocks ${fromBlock} -> ${toBlock}: ${buys.length} buys, ${claims.length} claims (next chunk ${nextChunkSize})`
+      );
+
+      checkpoint.nextBlock = toBlock + 1;
+      checkpoint.chunkSize = nextChunkSize;
+      await saveExportCheckpoint(checkpoint);
+    },
+    { initialChunkSize: checkpoint.chunkSize }
+  );
+
+  // Abort if the exported range was reorged while we were scanning it
+  const latestBlockHashAfter = (await provider.getBlock(checkpoint.toBlock))
+    .hash;
+  if (latestBlockHashAfter !== checkpoint.toBlockHash) {
+    await deleteExportCheckpoint(contractAddress);
+    throw new Error(
+      `Block ${checkpoint.toBlock} changed during export (reorg); re-run the export`
+    );
+  }
+
+  // 2) Write the export
+  const rows = Object.entries(wallets).map(
+    ([wallet, totals]): WalletTotals => ({
+      wallet,
+      totalBuys: totals.buys,
+      totalClaimTxs: totals.claimTxs,
+      totalBuysClaimed: totals.buysClaimed,
+      totalTokensClaimedRaw: totals.tokensClaimedRaw,
+      totalTokensClaimed: ethers.utils.formatUnits(
+        totals.tokensClaimedRaw,
+        TBAG_DECIMALS
+      ),
+    })
+  );
+
+  console.log("Total unique wallets (buys or claims):", rows.length);
+
+  const metadata = options.meta
+    ? {
+        contract: contractAddress,
+        fromBlock: checkpoint.fromBlock,
+        toBlock: checkpoint.toBlock,
+        generatedAt: new Date().toISOString(),
+        rowCount: rows.length,
+      }
+    : null;
+
+  const outPath = writeOutputFile(
+    options.out ?? `${DEFAULT_OUT_BASENAME}.${EXPORT_FORMAT_EXTENSIONS[format]}`,
+    formatExport(format, rows, WALLET_TOTALS_COLUMNS, metadata)
+  );
+  await deleteExportCheckpoint(contractAddress);
+
+  console.log("Done.");
+  console.log("Wrote:", outPath);
+}
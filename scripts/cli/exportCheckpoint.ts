@@ -0,0 +1,88 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { INDEXER_DATA_DIR } from "../../lib/config";
+
+// ----------------------------------------
+// Export checkpoint: per-wallet running totals plus the next block to scan,
+// saved after every chunk so a crashed export resumes where it stopped
+// ----------------------------------------
+
+// Bump when the persisted shape changes; older files are ignored
+const EXPORT_CHECKPOINT_VERSION = 1;
+
+export type ExportWalletTotals = {
+  buys: number;
+  claimTxs: number;
+  buysClaimed: number;
+  // uint256 as decimal string (JSON-safe)
+  tokensClaimedRaw: string;
+};
+
+export type ExportCheckpoint = {
+  version: number;
+  contract: string;
+  fromBlock: number;
+  toBlock: number;
+  // Hash of toBlock when the export started, re-checked at the end
+  toBlockHash: string;
+  nextBlock: number;
+  chunkSize: number;
+  wallets: Record<string, ExportWalletTotals>;
+};
+
+export function exportCheckpointPath(contract: string): string {
+  return path.join(
+    INDEXER_DATA_DIR,
+    `export-${contract.toLowerCase()}.checkpoint.json`
+  );
+}
+
+export function newExportCheckpoint(
+  contract: string,
+  fromBlock: number,
+  toBlock: number,
+  toBlockHash: string,
+  chunkSize: number
+): ExportCheckpoint {
+  return {
+    version: EXPORT_CHECKPOINT_VERSION,
+    contract: contract.toLowerCase(),
+    fromBlock,
+    toBlock,
+    toBlockHash,
+    nextBlock: fromBlock,
+    chunkSize,
+    wallets: {},
+  };
+}
+
+// null when there is no usable checkpoint
+export async function loadExportCheckpoint(
+  contract: string
+): Promise<ExportCheckpoint | null> {
+  const file = exportCheckpointPath(contract);
+  try {
+    const checkpoint = JSON.parse(
+      await fs.readFile(file, "utf8")
+    ) as ExportCheckpoint;
+    return checkpoint.version === EXPORT_CHECKPOINT_VERSION ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+// Temp file + rename so a crash never leaves half a checkpoint
+export async function saveExportCheckpoint(
+  checkpoint: ExportCheckpoint
+): Promise<void> {
+  const file = exportCheckpointPath(checkpoint.contract);
+  const tmp = `${file}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(checkpoint), "utf8");
+  await fs.rename(tmp, file);
+}
+
+export async function deleteExportCheckpoint(contract: string): Promise<void> {
+  await fs.rm(exportCheckpointPath(contract), { force: true });
+}
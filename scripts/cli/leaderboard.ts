@@ -0,0 +1,66 @@
+import { TBAG_DAILY_BUYS_ADDRESS } from "../../lib/contracts/tbagDailyFreeBuys";
+import {
+  LEADERBOARD_SORTS,
+  parseLeaderboardSort,
+  rankLeaderboard,
+} from "../../lib/leaderboard";
+import { loadIndexedStats } from "../../lib/stats";
+import {
+  indexedRange,
+  statsInRange,
+  writeOutputFile,
+  type CliOptions,
+} from "./options";
+
+const DEFAULT_LIMIT = 50;
+
+// ----------------------------------------
+// leaderboard [--sort buys|claimed|unclaimed] [--limit n]: top wallets over
+// the indexed range (or --from/--to)
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const sort = parseLeaderboardSort(options.sort);
+  if (!sort) {
+    throw new Error(`Invalid --sort. Use one of: ${LEADERBOARD_SORTS.join(", ")}`);
+  }
+
+  const allTime = await loadIndexedStats();
+  const range = indexedRange(allTime.state, options);
+  const stats = statsInRange(allTime, range);
+
+  const ranked = rankLeaderboard(stats.rows, sort);
+  const rows = ranked.slice(0, options.limit ?? DEFAULT_LIMIT);
+
+  console.log(
+    `Leaderboard by ${sort}, blocks ${range.fromBlock} -> ${range.toBlock} (${ranked.length} wallets)`
+  );
+  for (const row of rows) {
+    console.log(
+      [
+        String(row.rank).padStart(5),
+        row.wallet,
+        `buys ${row.totalBuys}`,
+        `claimed ${row.totalTokensClaimed}`,
+        `unclaimed ${row.unclaimedTokens}`,
+      ].join("  ")
+    );
+  }
+
+  if (options.out) {
+    const outPath = writeOutputFile(
+      options.out,
+      JSON.stringify(
+        {
+          contract: TBAG_DAILY_BUYS_ADDRESS,
+          ...range,
+          sort,
+          total: ranked.length,
+          rows,
+        },
+        null,
+        2
+      )
+    );
+    console.log("Wrote:", outPath);
+  }
+}
@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import {
+  parseWalletTotalsCsv,
+  type WalletTotals,
+} from "../../lib/exportFormats";
+import type { IndexState } from "../../lib/indexer/types";
+import { aggregateWallets } from "../../lib/leaderboard";
+import { snapshotRows } from "../../lib/snapshot";
+import type { IndexedStats } from "../../lib/stats";
+import { sliceIndexState, type BlockRange } from "../../lib/windows";
+
+// ----------------------------------------
+// Parsed command line shared by every subcommand. --contract, --rpc,
+// --data-dir and --confirmations are applied as env overrides before the
+// lib modules load, so they are not repeated here.
+// ----------------------------------------
+export type CliOptions = {
+  // Positional arguments after the subcommand
+  args: string[];
+  // Inclusive block range to report on
+  from: number | null;
+  to: number | null;
+  // Output file (commands that support it); "-" for stdout
+  out: string | null;
+  // export: output format and whether to include the metadata header
+  format: string | null;
+  meta: boolean;
+  // export: ignore any saved checkpoint
+  fresh: boolean;
+  // rewards: tier config file
+  config: string | null;
+  sort: string | null;
+  limit: number | null;
+  // audit / solvency: calls per Multicall3 batch (null = library default)
+  batchSize: number | null;
+};
+
+// ----------------------------------------
+// Block range: --from/--to clamped to what the index covers
+// ----------------------------------------
+export function indexedRange(state: IndexState, options: CliOptions): BlockRange {
+  const fromBlock = Math.max(options.from ?? state.fromBlock, state.fromBlock);
+  const toBlock = Math.min(
+    options.to ?? state.lastIndexedBlock,
+    state.lastIndexedBlock
+  );
+
+  if (options.to !== null && options.to > state.lastIndexedBlock) {
+    console.warn(
+      `--to ${options.to} is past the last indexed block; using ${state.lastIndexedBlock}`
+    );
+  }
+
+  return { fromBlock, toBlock };
+}
+
+// Stats restricted to a block range (all-time stats are returned as-is)
+export function statsInRange(
+  stats: IndexedStats,
+  range: BlockRange
+): IndexedStats {
+  if (
+    range.fromBlock <= stats.state.fromBlock &&
+    range.toBlock >= stats.state.lastIndexedBlock
+  ) {
+    return stats;
+  }
+
+  const state: IndexState = {
+    ...stats.state,
+    ...sliceIndexState(stats.state, range),
+    fromBlock: range.fromBlock,
+    lastIndexedBlock: range.toBlock,
+  };
+
+  return {
+    state,
+    tbagPerBuy: stats.tbagPerBuy,
+    rows: aggregateWallets(state, stats.tbagPerBuy),
+  };
+}
+
+// Returns the written path, or "stdout" for --out -
+export function writeOutputFile(out: string, contents: string): string {
+  if (out === "-") {
+    process.stdout.write(contents);
+    return "stdout";
+  }
+
+  const outPath = path.resolve(out);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, contents, "utf8");
+  return outPath;
+}
+
+// ----------------------------------------
+// Per-wallet totals from a block number (read from the index, synced
+// lazily via getState) or from an `export` / `snapshot` CSV
+// ----------------------------------------
+export async function loadWalletTotals(
+  spec: string,
+  getState: () => Promise<IndexState>
+): Promise<WalletTotals[]> {
+  if (/^\d+$/.test(spec)) {
+    const state = await getState();
+    const block = Number(spec);
+    if (block > state.lastIndexedBlock) {
+      throw new Error(
+        `Block ${block} is past the last indexed block ${state.lastIndexedBlock}`
+      );
+    }
+    return snapshotRows(state, state.fromBlock, block);
+  }
+
+  return parseWalletTotalsCsv(fs.readFileSync(spec, "utf8"));
+}
@@ -0,0 +1,72 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import type { IndexState } from "../../lib/indexer/types";
+import { syncIndex } from "../../lib/indexer/sync";
+import { toAllocationFile } from "../../lib/rewards/allocationFile";
+import { buildMerkleDistribution } from "../../lib/rewards/merkle";
+import { allocateRewards, parseRewardsConfig } from "../../lib/rewards/tiers";
+import { snapshotContentHash } from "../../lib/snapshot";
+import { loadWalletTotals, writeOutputFile, type CliOptions } from "./options";
+
+// rewards.json -> rewards.merkle.json
+function merklePathFor(allocationPath: string): string {
+  return allocationPath.replace(/\.json$/i, "") + ".merkle.json";
+}
+
+// ----------------------------------------
+// rewards --config tiers.json <block|snapshot.csv>: allocate bonus TBAG by
+// tier and write the allocation file plus a merkle-distributor JSON
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const [source] = options.args;
+  if (!source || !options.config) {
+    throw new Error("Usage: rewards --config <tiers.json> <block|snapshot.csv>");
+  }
+
+  const config = parseRewardsConfig(
+    JSON.parse(fs.readFileSync(options.config, "utf8"))
+  );
+
+  let state: Promise<IndexState> | null = null;
+  const rows = await loadWalletTotals(source, () => (state ??= syncIndex()));
+
+  const isBlock = /^\d+$/.test(source);
+  const sourceSha256 = isBlock
+    ? null
+    : snapshotContentHash(fs.readFileSync(source, "utf8"));
+
+  const allocation = allocateRewards(rows, config);
+  const distribution = buildMerkleDistribution(
+    new Map(allocation.allocations.map((a) => [a.wallet, a.amount]))
+  );
+  const file = toAllocationFile(
+    isBlock ? `block ${source}` : source,
+    sourceSha256,
+    config,
+    allocation,
+    distribution
+  );
+
+  const format = (raw: ethers.BigNumber) =>
+    ethers.utils.formatUnits(raw, config.decimals);
+  console.log(
+    `Allocated ${format(allocation.total)} TBAG to ${allocation.allocations.length} of ${rows.length} wallets` +
+      (allocation.undistributed.isZero()
+        ? ""
+        : ` (${format(allocation.undistributed)} undistributed)`)
+  );
+  console.log(`  Merkle root ${distribution.merkleRoot}`);
+
+  const allocationPath = writeOutputFile(
+    options.out ?? (isBlock ? `rewards-${source}.json` : "rewards.json"),
+    JSON.stringify(file, null, 2) + "\n"
+  );
+  if (allocationPath !== "stdout") {
+    const merklePath = writeOutputFile(
+      merklePathFor(allocationPath),
+      JSON.stringify(distribution, null, 2) + "\n"
+    );
+    console.log("Wrote:", allocationPath);
+    console.log("Wrote:", merklePath);
+  }
+}
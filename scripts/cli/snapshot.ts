@@ -0,0 +1,89 @@
+import fs from "fs";
+import { syncIndex } from "../../lib/indexer/sync";
+import { getLineaProvider } from "../../lib/rpc";
+import {
+  createSnapshot,
+  signSnapshotManifest,
+  verifySnapshot,
+  type SnapshotManifest,
+} from "../../lib/snapshot";
+import { indexedRange, writeOutputFile, type CliOptions } from "./options";
+
+// Signs the manifest when set (EIP-191, recoverable with verifyMessage)
+const SNAPSHOT_SIGNER_PRIVATE_KEY = process.env.SNAPSHOT_SIGNER_PRIVATE_KEY;
+
+// snapshot-123.csv -> snapshot-123.manifest.json
+function manifestPathFor(csvPath: string): string {
+  return csvPath.replace(/\.csv$/i, "") + ".manifest.json";
+}
+
+// ----------------------------------------
+// snapshot verify <csv> [manifest]: re-hash the CSV and check the signature
+// ----------------------------------------
+function verify(csvPath: string | undefined, manifestPath: string | undefined) {
+  if (!csvPath) {
+    throw new Error("Usage: snapshot verify <snapshot.csv> [manifest.json]");
+  }
+
+  const csv = fs.readFileSync(csvPath, "utf8");
+  const manifest = JSON.parse(
+    fs.readFileSync(manifestPath ?? manifestPathFor(csvPath), "utf8")
+  ) as SnapshotManifest;
+
+  const { contentMatches, signatureValid } = verifySnapshot(csv, manifest);
+  console.log(
+    `Content hash: ${contentMatches ? "matches" : "DOES NOT MATCH"} (${manifest.contentSha256})`
+  );
+  console.log(
+    signatureValid === null
+      ? "Signature: none"
+      : `Signature: ${signatureValid ? "valid" : "INVALID"} (signer ${manifest.signer})`
+  );
+
+  if (!contentMatches || signatureValid === false) process.exitCode = 1;
+}
+
+// ----------------------------------------
+// snapshot [--to block]: per-wallet totals at a block as deterministic CSV
+// plus a manifest (block hash, row count, content hash)
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const [subcommand, ...rest] = options.args;
+  if (subcommand === "verify") {
+    verify(rest[0], rest[1]);
+    return;
+  }
+
+  const state = await syncIndex();
+  const range = indexedRange(state, options);
+
+  const snapshot = await createSnapshot(
+    getLineaProvider(),
+    state,
+    range.fromBlock,
+    range.toBlock
+  );
+  const manifest = SNAPSHOT_SIGNER_PRIVATE_KEY
+    ? await signSnapshotManifest(snapshot.manifest, SNAPSHOT_SIGNER_PRIVATE_KEY)
+    : snapshot.manifest;
+
+  const csvPath = writeOutputFile(
+    options.out ?? `snapshot-${range.toBlock}.csv`,
+    snapshot.csv
+  );
+  const manifestJson = JSON.stringify(manifest, null, 2) + "\n";
+
+  if (csvPath === "stdout") {
+    // Manifest goes to stderr next to the logs
+    console.error(manifestJson);
+  } else {
+    writeOutputFile(manifestPathFor(csvPath), manifestJson);
+  }
+
+  console.log(
+    `Snapshot of ${manifest.rowCount} wallets at block ${manifest.blockNumber} (${manifest.blockHash})`
+  );
+  console.log(`  sha256 ${manifest.contentSha256}`);
+  if (manifest.signer) console.log(`  signed by ${manifest.signer}`);
+  console.log("Wrote:", csvPath);
+}
@@ -0,0 +1,52 @@
+import { syncIndex } from "../../lib/indexer/sync";
+import { LINEA_RPC_URLS, getLineaProvider } from "../../lib/rpc";
+import { checkSolvency } from "../../lib/solvency";
+import { writeOutputFile, type CliOptions } from "./options";
+
+// ----------------------------------------
+// solvency: outstanding claimable TBAG vs the contract's balance.
+// Sets exit code 1 when runway is under the threshold (cron-friendly).
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  console.log("Using RPCs:", LINEA_RPC_URLS.join(", "));
+  const provider = getLineaProvider();
+
+  console.log("Syncing index...");
+  const state = await syncIndex();
+  console.log(
+    `Indexed blocks ${state.fromBlock} -> ${state.lastIndexedBlock}: ${state.buys.length} buys, ${state.claims.length} claims`
+  );
+
+  const report = await checkSolvency(provider, state, {
+    batchSize: options.batchSize ?? undefined,
+    onProgress: (done, total) => {
+      if (done === total || done % 500 === 0) {
+        console.log(`  Checked ${done}/${total} wallets`);
+      }
+    },
+  });
+
+  const { payoutRate } = report;
+  console.log(`Balance:      ${report.balanceFormatted} TBAG`);
+  console.log(
+    `Outstanding:  ${report.outstandingFormatted} TBAG across ${report.walletsChecked} wallets`
+  );
+  console.log(`Surplus:      ${report.surplusFormatted} TBAG`);
+  console.log(
+    `Payout rate:  ${payoutRate.tokensPerDayFormatted} TBAG/day (${payoutRate.buys} buys over ${payoutRate.days} days)`
+  );
+  console.log(
+    `Runway:       ${
+      report.runwayDays === null ? "unlimited" : `${report.runwayDays} days`
+    } (threshold ${report.minRunwayDays})`
+  );
+
+  if (options.out) {
+    const outPath = writeOutputFile(options.out, JSON.stringify(report, null, 2));
+    console.log("Wrote:", outPath);
+  }
+
+  if (report.warning) console.warn(`WARNING: ${report.warning}`);
+  console.log(report.status.toUpperCase());
+  if (report.status !== "ok") process.exitCode = 1;
+}
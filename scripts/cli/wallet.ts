@@ -0,0 +1,59 @@
+import { ethers } from "ethers";
+import { getLineaProvider } from "../../lib/rpc";
+import { loadIndexedStats } from "../../lib/stats";
+import { buildWalletProfile } from "../../lib/wallet";
+import {
+  indexedRange,
+  statsInRange,
+  writeOutputFile,
+  type CliOptions,
+} from "./options";
+
+// ----------------------------------------
+// wallet <address>: rank, totals and Buy/Claim timeline for one wallet
+// ----------------------------------------
+export async function run(options: CliOptions) {
+  const [address] = options.args;
+  if (!address || !ethers.utils.isAddress(address)) {
+    throw new Error("Usage: wallet <address>");
+  }
+
+  const allTime = await loadIndexedStats();
+  const range = indexedRange(allTime.state, options);
+  const stats = statsInRange(allTime, range);
+
+  const profile = await buildWalletProfile(getLineaProvider(), stats, address);
+  const { totals } = profile;
+
+  console.log(
+    `${profile.wallet}, blocks ${range.fromBlock} -> ${range.toBlock}`
+  );
+  if (!totals) {
+    console.log("  No indexed activity");
+  } else {
+    console.log(`  Rank:      ${profile.rank} of ${profile.totalWallets}`);
+    console.log(`  Buys:      ${totals.totalBuys}`);
+    console.log(
+      `  Claimed:   ${totals.totalBuysClaimed} buys, ${totals.totalTokensClaimed} TBAG (${totals.totalClaimTxs} txs)`
+    );
+    console.log(
+      `  Unclaimed: ${totals.unclaimedBuys} buys, ${totals.unclaimedTokens} TBAG`
+    );
+  }
+
+  for (const e of profile.events) {
+    const when = e.timestamp
+      ? new Date(e.timestamp * 1000).toISOString()
+      : "?";
+    const detail =
+      e.type === "buy"
+        ? `buy #${e.userTotalBuys}`
+        : `claim ${e.buysClaimed} buys, ${e.tokensPaid} TBAG`;
+    console.log(`  ${e.blockNumber}  ${when}  ${detail}  ${e.txHash}`);
+  }
+
+  if (options.out) {
+    const outPath = writeOutputFile(options.out, JSON.stringify(profile, null, 2));
+    console.log("Wrote:", outPath);
+  }
+}
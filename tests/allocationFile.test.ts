@@ -0,0 +1,69 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAllocationBalances } from "../lib/rewards/allocationFile";
+
+const A = "0x17ec8597ff92C3F44523bDc65BF0f1bE632917ff";
+const B = "0xD1D84F0e28D6fedF03c73151f98dF95139700aa7";
+const ROOT = `0x${"12".repeat(32)}`;
+
+const asStrings = (balances: Map<string, { toString(): string }>) =>
+  Array.from(balances, ([account, amount]) => [account, amount.toString()]);
+
+describe("parseAllocationBalances", () => {
+  test("reads the rewards command's allocation file with its root", () => {
+    const file = JSON.stringify({
+      version: 1,
+      merkleRoot: ROOT,
+      allocations: [
+        { wallet: A, rank: 1, buys: 3, amount: "300", byTier: {} },
+        { wallet: B, rank: 2, buys: 1, amount: "100", byTier: {} },
+      ],
+    });
+    const { balances, merkleRoot } = parseAllocationBalances(file, "alloc.json");
+    assert.equal(merkleRoot, ROOT);
+    assert.deepEqual(asStrings(balances), [
+      [A, "300"],
+      [B, "100"],
+    ]);
+  });
+
+  test("reads a plain JSON list and checksums addresses", () => {
+    const { balances, merkleRoot } = parseAllocationBalances(
+      JSON.stringify([{ wallet: A.toLowerCase(), amount: "7" }]),
+      "list.json"
+    );
+    assert.equal(merkleRoot, null);
+    assert.deepEqual(asStrings(balances), [[A, "7"]]);
+  });
+
+  test("reads CSV by header name and sums repeated wallets", () => {
+    const csv = `amount,wallet\n5,${A}\n6,${A.toLowerCase()}\n1,${B}\n`;
+    const { balances } = parseAllocationBalances(csv, "ALLOC.CSV");
+    assert.deepEqual(asStrings(balances), [
+      [A, "11"],
+      [B, "1"],
+    ]);
+  });
+
+  test("rejects missing columns and bad entries", () => {
+    assert.throws(
+      () => parseAllocationBalances("wallet\n", "a.csv"),
+      /wallet and amount columns/
+    );
+    assert.throws(
+      () => parseAllocationBalances(`wallet,amount\n${A},1.5\n`, "a.csv"),
+      /Invalid allocation entry 1/
+    );
+    assert.throws(
+      () =>
+        parseAllocationBalances(
+          JSON.stringify([
+            { wallet: A, amount: "1" },
+            { wallet: "0x12", amount: "1" },
+          ]),
+          "a.json"
+        ),
+      /Invalid allocation entry 2/
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { checkBuySequences } from "../lib/audit";
+import type { BuyEvent } from "../lib/indexer/types";
+
+const A = "0x1000000000000000000000000000000000000001";
+const B = "0x2000000000000000000000000000000000000002";
+
+function buy(
+  wallet: string,
+  userTotalBuys: number,
+  blockNumber: number,
+  txHash = `0x${wallet.slice(2, 6)}${userTotalBuys}-${blockNumber}`
+): BuyEvent {
+  return {
+    wallet,
+    userTotalBuys,
+    buysInCurrentWindow: 1,
+    blockNumber,
+    txHash,
+    logIndex: 0,
+  };
+}
+
+describe("checkBuySequences", () => {
+  test("a complete 1..n sequence is clean, in any input order", () => {
+    const result = checkBuySequences([buy(A, 3, 30), buy(A, 1, 10), buy(A, 2, 20)]);
+    assert.deepEqual(result.sequenceGaps, []);
+    assert.deepEqual(result.duplicates, []);
+    assert.equal(result.lastUserTotalBuys.get(A), 3);
+  });
+
+  test("reports missing counters with the blocks to rescan", () => {
+    const { sequenceGaps } = checkBuySequences([
+      buy(A, 1, 10),
+      buy(A, 4, 40),
+      buy(B, 3, 25),
+    ]);
+    assert.deepEqual(sequenceGaps, [
+      { wallet: A, missing: [2, 3], fromBlock: 10, toBlock: 40 },
+      // Nothing indexed before the first event: rescan from the start
+      { wallet: B, missing: [1, 2], fromBlock: 0, toBlock: 25 },
+    ]);
+  });
+
+  test("groups repeats of one counter into a single duplicate", () => {
+    const { duplicates, sequenceGaps, lastUserTotalBuys } = checkBuySequences([
+      buy(A, 1, 10),
+      buy(A, 2, 20, "0xa"),
+      buy(A, 2, 21, "0xb"),
+      buy(A, 2, 22, "0xc"),
+      buy(A, 3, 30),
+    ]);
+    assert.deepEqual(duplicates, [
+      { wallet: A, userTotalBuys: 2, txHashes: ["0xa", "0xb", "0xc"] },
+    ]);
+    assert.deepEqual(sequenceGaps, []);
+    assert.equal(lastUserTotalBuys.get(A), 3);
+  });
+
+  test("no events, no findings", () => {
+    const result = checkBuySequences([]);
+    assert.deepEqual(result.sequenceGaps, []);
+    assert.equal(result.lastUserTotalBuys.size, 0);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import {
+  decodeContractError,
+  findRevertData,
+  isUserRejection,
+} from "../lib/contracts/errors";
+
+const DAILY_LIMIT = new ethers.utils.Interface([
+  "error DailyLimitReached()",
+]).encodeErrorResult("DailyLimitReached");
+
+const errorString = (reason: string) =>
+  ethers.utils.hexConcat([
+    "0x08c379a0",
+    ethers.utils.defaultAbiCoder.encode(["string"], [reason]),
+  ]);
+
+describe("findRevertData", () => {
+  test("finds the payload however the wallet / RPC nested it", () => {
+    // ethers callStatic / estimateGas
+    assert.equal(findRevertData({ code: "CALL_EXCEPTION", data: DAILY_LIMIT }), DAILY_LIMIT);
+    // MetaMask: error.data.originalError.data
+    assert.equal(
+      findRevertData({
+        code: -32603,
+        data: { originalError: { code: 3, data: DAILY_LIMIT } },
+      }),
+      DAILY_LIMIT
+    );
+    // ethers SERVER_ERROR with the raw JSON-RPC body
+    assert.equal(
+      findRevertData({
+        code: "SERVER_ERROR",
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          error: { code: 3, message: "execution reverted", data: DAILY_LIMIT },
+        }),
+      }),
+      DAILY_LIMIT
+    );
+  });
+
+  test("ignores the transaction's own calldata", () => {
+    assert.equal(
+      findRevertData({ transaction: { data: "0xa0712d680000" } }),
+      null
+    );
+  });
+});
+
+describe("decodeContractError", () => {
+  test("decodes custom errors", () => {
+    const decoded = decodeContractError({ error: { data: DAILY_LIMIT } });
+    assert.equal(decoded?.kind, "custom");
+    assert.equal(decoded?.kind === "custom" && decoded.name, "DailyLimitReached");
+  });
+
+  test("maps the distributor's require strings to error names", () => {
+    assert.deepEqual(
+      decodeContractError({
+        data: errorString("MerkleDistributor: Drop already claimed."),
+      }),
+      { kind: "custom", name: "AlreadyClaimed", args: [] }
+    );
+  });
+
+  test("passes other require strings through as reasons", () => {
+    assert.deepEqual(decodeContractError({ data: errorString("paused") }), {
+      kind: "reason",
+      reason: "paused",
+    });
+  });
+
+  test("falls back to an error name in the message", () => {
+    const decoded = decodeContractError(
+      new Error('execution reverted: custom error "NotPohVerified()"')
+    );
+    assert.equal(decoded?.kind === "custom" && decoded.name, "NotPohVerified");
+  });
+
+  test("returns null for unknown selectors and non-revert errors", () => {
+    assert.equal(decodeContractError({ data: "0xdeadbeef00" }), null);
+    assert.equal(decodeContractError(new Error("network timeout")), null);
+    assert.equal(decodeContractError(null), null);
+  });
+});
+
+describe("isUserRejection", () => {
+  test("recognises ethers, EIP-1193 and message-only rejections", () => {
+    assert.equal(isUserRejection({ code: "ACTION_REJECTED" }), true);
+    assert.equal(isUserRejection({ code: 4001 }), true);
+    assert.equal(isUserRejection({ error: { code: 4001 } }), true);
+    assert.equal(
+      isUserRejection(new Error("MetaMask Tx Signature: User rejected the request.")),
+      true
+    );
+    assert.equal(isUserRejection({ code: -32603 }), false);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  WALLET_TOTALS_COLUMNS,
+  formatExport,
+  parseCsv,
+  parseWalletTotalsCsv,
+  type ExportColumn,
+  type WalletTotals,
+} from "../lib/exportFormats";
+
+const WALLET_A = "0x17ec8597ff92C3F44523bDc65BF0f1bE632917ff";
+const WALLET_B = "0xD1D84F0e28D6fedF03c73151f98dF95139700aa7";
+
+const TOTALS: WalletTotals[] = [
+  {
+    wallet: WALLET_A,
+    totalBuys: 12,
+    totalClaimTxs: 2,
+    totalBuysClaimed: 10,
+    totalTokensClaimedRaw: "10000000000000000000",
+    totalTokensClaimed: "10.0",
+  },
+  {
+    wallet: WALLET_B,
+    totalBuys: 3,
+    totalClaimTxs: 0,
+    totalBuysClaimed: 0,
+    totalTokensClaimedRaw: "0",
+    totalTokensClaimed: "0.0",
+  },
+];
+
+type Note = { id: number; text: string };
+const NOTE_COLUMNS: ExportColumn<Note>[] = [
+  { key: "id", description: "Row id", value: (r) => r.id },
+  { key: "text", description: "Free text", value: (r) => r.text },
+];
+
+describe("CSV writer", () => {
+  test("quotes only fields with commas, quotes or line breaks", () => {
+    const csv = formatExport("csv", [{ id: 1, text: 'a,"b"' }], NOTE_COLUMNS);
+    assert.equal(csv, 'id,text\r\n1,"a,""b"""\r\n');
+
+    const plain = formatExport("csv", [{ id: 2, text: "plain" }], NOTE_COLUMNS);
+    assert.equal(plain, "id,text\r\n2,plain\r\n");
+  });
+
+  test("round-trips awkward fields through parseCsv", () => {
+    const notes: Note[] = [
+      { id: 1, text: "comma, inside" },
+      { id: 2, text: 'say "hi"' },
+      { id: 3, text: "two\r\nlines" },
+      { id: 4, text: "lf\nonly" },
+      { id: 5, text: "" },
+    ];
+    const [header, ...records] = parseCsv(
+      formatExport("csv", notes, NOTE_COLUMNS)
+    );
+
+    assert.deepEqual(header, ["id", "text"]);
+    assert.deepEqual(
+      records,
+      notes.map((n) => [String(n.id), n.text])
+    );
+  });
+
+  test("metadata header lines are skipped when reading back", () => {
+    const csv = formatExport("csv", TOTALS, WALLET_TOTALS_COLUMNS, {
+      contract: "0xcA2538De53E21128B298a80d92f67b33605FEECC",
+      fromBlock: 1,
+      toBlock: 100,
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      rowCount: TOTALS.length,
+    });
+
+    assert.ok(csv.startsWith("# contract: "));
+    assert.deepEqual(parseWalletTotalsCsv(csv), TOTALS);
+  });
+});
+
+describe("parseCsv", () => {
+  test("accepts LF and CRLF records and a missing final newline", () => {
+    assert.deepEqual(parseCsv("a,b\n1,2"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+    assert.deepEqual(parseCsv("a,b\r\n1,2\r\n"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  test("keeps empty fields", () => {
+    assert.deepEqual(parseCsv(",x,\n"), [["", "x", ""]]);
+  });
+
+  test("rejects an unterminated quoted field", () => {
+    assert.throws(() => parseCsv('a,"b\n'), /Unterminated/);
+  });
+});
+
+describe("parseWalletTotalsCsv", () => {
+  test("reads the old export script's output (LF, no final newline)", () => {
+    const legacy = [
+      "wallet,totalBuys,totalClaimTxs,totalBuysClaimed,totalTokensClaimed_raw,totalTokensClaimed_TBAG",
+      `${WALLET_A},12,2,10,10000000000000000000,10.0`,
+      `${WALLET_B},3,0,0,0,0.0`,
+    ].join("\n");
+
+    assert.deepEqual(parseWalletTotalsCsv(legacy), TOTALS);
+  });
+
+  test("matches columns by header name, not position", () => {
+    const reordered = [
+      "totalTokensClaimed_TBAG,wallet,totalBuysClaimed,totalClaimTxs,totalTokensClaimed_raw,totalBuys",
+      `10.0,${WALLET_A},10,2,10000000000000000000,12`,
+    ].join("\n");
+
+    assert.deepEqual(parseWalletTotalsCsv(reordered), [TOTALS[0]]);
+  });
+
+  test("names the missing column and the bad row", () => {
+    assert.throws(
+      () => parseWalletTotalsCsv("wallet,totalBuys\n"),
+      /missing the totalClaimTxs column/
+    );
+
+    const badRow = formatExport("csv", TOTALS, WALLET_TOTALS_COLUMNS).replace(
+      `${WALLET_B},3,`,
+      `${WALLET_B},-3,`
+    );
+    assert.throws(() => parseWalletTotalsCsv(badRow), /CSV row 3/);
+  });
+});
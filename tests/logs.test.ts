@@ -0,0 +1,140 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ethers } from "ethers";
+import { scanLogsAdaptive, type LogChunk } from "../lib/indexer/logs";
+
+type Filter = { fromBlock: number; toBlock: number };
+
+// getLogs stub: one log per block in `busy`, and a -32005 for any range
+// wider than maxRange
+function fakeProvider(maxRange: number, busy: (block: number) => boolean) {
+  const requests: Filter[] = [];
+  const provider = {
+    getLogs: async ({ fromBlock, toBlock }: Filter) => {
+      requests.push({ fromBlock, toBlock });
+      if (toBlock - fromBlock + 1 > maxRange) {
+        throw Object.assign(new Error("query returned more than 10000 results"), {
+          code: -32005,
+        });
+      }
+      const logs = [];
+      for (let n = fromBlock; n <= toBlock; n++) {
+        if (busy(n)) logs.push({ blockNumber: n });
+      }
+      return logs;
+    },
+  } as unknown as ethers.providers.Provider;
+  return { provider, requests };
+}
+
+async function scan(
+  provider: ethers.providers.Provider,
+  fromBlock: number,
+  toBlock: number,
+  options: Parameters<typeof scanLogsAdaptive>[6]
+) {
+  const chunks: LogChunk[] = [];
+  await scanLogsAdaptive(
+    provider,
+    "0x1000000000000000000000000000000000000001",
+    [],
+    fromBlock,
+    toBlock,
+    (chunk) => {
+      chunks.push(chunk);
+    },
+    options
+  );
+  return chunks;
+}
+
+// Chunks must tile [fromBlock, toBlock] with no gaps or overlaps
+function assertContiguous(chunks: LogChunk[], fromBlock: number, toBlock: number) {
+  let cursor = fromBlock;
+  for (const chunk of chunks) {
+    assert.equal(chunk.fromBlock, cursor);
+    assert.ok(chunk.toBlock >= chunk.fromBlock);
+    cursor = chunk.toBlock + 1;
+  }
+  assert.equal(cursor, toBlock + 1);
+}
+
+describe("scanLogsAdaptive", () => {
+  test("halves on -32005 and covers the range exactly once", async () => {
+    const { provider, requests } = fakeProvider(300, () => false);
+    const chunks = await scan(provider, 1, 1000, {
+      initialChunkSize: 1000,
+      ceilingRecoveryChunks: 100,
+    });
+
+    assert.deepEqual(
+      requests.slice(0, 3).map((r) => r.toBlock - r.fromBlock + 1),
+      [1000, 500, 250]
+    );
+    assertContiguous(chunks, 1, 1000);
+    // Capped at the size that worked: never asks for more than 250 again
+    assert.ok(chunks.every((c) => c.toBlock - c.fromBlock + 1 <= 250));
+  });
+
+  test("shrinks on busy ranges and grows again on quiet ones", async () => {
+    const busy = (n: number) => n >= 200 && n < 400;
+    const { provider } = fakeProvider(Infinity, busy);
+    const chunks = await scan(provider, 0, 2000, {
+      initialChunkSize: 100,
+      maxChunkSize: 800,
+      targetLogs: 40,
+    });
+
+    assertContiguous(chunks, 0, 2000);
+    const sizes = chunks.map((c) => c.toBlock - c.fromBlock + 1);
+    const busiest = chunks.findIndex((c) => c.logs.length > 40);
+    assert.ok(busiest > 0);
+    assert.ok(chunks[busiest].nextChunkSize < sizes[busiest]);
+    assert.equal(Math.max(...sizes), 800);
+    assert.equal(
+      chunks.reduce((sum, c) => sum + c.logs.length, 0),
+      200
+    );
+  });
+
+  test("the ceiling recovers after enough clean chunks", async () => {
+    // Only the first 1000 blocks are too dense for wide ranges
+    const requests: Filter[] = [];
+    const provider = {
+      getLogs: async ({ fromBlock, toBlock }: Filter) => {
+        requests.push({ fromBlock, toBlock });
+        if (fromBlock < 1000 && toBlock - fromBlock + 1 > 100) {
+          throw Object.assign(new Error("too many"), { code: -32005 });
+        }
+        return [];
+      },
+    } as unknown as ethers.providers.Provider;
+
+    const chunks = await scan(provider, 0, 20_000, {
+      initialChunkSize: 200,
+      maxChunkSize: 1600,
+      ceilingRecoveryChunks: 2,
+    });
+
+    assertContiguous(chunks, 0, 20_000);
+    assert.equal(
+      Math.max(...chunks.map((c) => c.toBlock - c.fromBlock + 1)),
+      1600
+    );
+  });
+
+  test("rethrows other errors and -32005 at the minimum size", async () => {
+    const failing = {
+      getLogs: async () => {
+        throw Object.assign(new Error("boom"), { code: -32000 });
+      },
+    } as unknown as ethers.providers.Provider;
+    await assert.rejects(scan(failing, 0, 10, {}), /boom/);
+
+    const { provider } = fakeProvider(0, () => false);
+    await assert.rejects(
+      scan(provider, 0, 10, { initialChunkSize: 4, minChunkSize: 2 }),
+      /more than 10000 results/
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import {
+  buildMerkleDistribution,
+  merkleLeaf,
+  verifyMerkleProof,
+} from "../lib/rewards/merkle";
+
+// Accounts and amounts from the parseBalanceMap test in
+// Uniswap/merkle-distributor (waffle's first three default wallets)
+const WALLET_0 = "0x17ec8597ff92C3F44523bDc65BF0f1bE632917ff";
+const WALLET_1 = "0x63Fc2Ad3d021a4af7380BE3858C4Cf9f26ADb5c0";
+const WALLET_2 = "0xD1D84F0e28D6fedF03c73151f98dF95139700aa7";
+
+const BALANCES = new Map([
+  [WALLET_0, ethers.BigNumber.from(200)],
+  [WALLET_1, ethers.BigNumber.from(300)],
+  [WALLET_2, ethers.BigNumber.from(250)],
+]);
+
+// ----------------------------------------
+// Reference: Uniswap's MerkleTree / BalanceTree on Buffers (leaves sorted
+// with Buffer.compare and de-duplicated, pairs hashed in sorted order, an
+// odd node carried up) and OpenZeppelin's MerkleProof.verify, which
+// MerkleDistributor.claim() runs on-chain
+// ----------------------------------------
+const toBuffer = (hex: string): Buffer => Buffer.from(hex.slice(2), "hex");
+const toHex = (buf: Buffer) => `0x${buf.toString("hex")}`;
+
+function combinedHash(first: Buffer, second?: Buffer): Buffer {
+  if (!second) return first;
+  return toBuffer(
+    ethers.utils.keccak256(Buffer.concat([first, second].sort(Buffer.compare)))
+  );
+}
+
+function referenceRoot(leaves: string[]): string {
+  let layer: Buffer[] = leaves
+    .map(toBuffer)
+    .sort(Buffer.compare)
+    .filter((buf, i, arr) => i === 0 || !buf.equals(arr[i - 1]));
+  while (layer.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(combinedHash(layer[i], layer[i + 1]));
+    }
+    layer = next;
+  }
+  return toHex(layer[0]);
+}
+
+function openZeppelinVerify(proof: string[], root: string, leaf: string) {
+  let computed: Buffer = toBuffer(leaf);
+  for (const sibling of proof) {
+    computed = combinedHash(computed, toBuffer(sibling));
+  }
+  return toHex(computed) === root.toLowerCase();
+}
+
+describe("merkleLeaf", () => {
+  test("matches the Uniswap test vector leaves", () => {
+    assert.equal(
+      merkleLeaf(0, WALLET_0, 200),
+      "0xd31de46890d4a77baeebddbd77bf73b5c626397b73ee8c69b51efe4c9a5a72fa"
+    );
+    assert.equal(
+      merkleLeaf(2, WALLET_2, 250),
+      "0xbfeb956a3b705056020a3b64c540bff700c0f6c96c55c0a5fcab57124cb36f7b"
+    );
+  });
+});
+
+describe("buildMerkleDistribution", () => {
+  const distribution = buildMerkleDistribution(BALANCES);
+
+  test("indexes accounts in address order with hex amounts", () => {
+    assert.equal(distribution.tokenTotal, "0x02ee");
+    assert.deepEqual(
+      Object.entries(distribution.claims).map(([account, c]) => [
+        account,
+        c.index,
+        c.amount,
+      ]),
+      [
+        [WALLET_0, 0, "0xc8"],
+        [WALLET_1, 1, "0x012c"],
+        [WALLET_2, 2, "0xfa"],
+      ]
+    );
+  });
+
+  test("root matches the reference tree", () => {
+    const leaves = Object.entries(distribution.claims).map(([account, c]) =>
+      merkleLeaf(c.index, account, c.amount)
+    );
+    assert.equal(distribution.merkleRoot, referenceRoot(leaves));
+  });
+
+  test("every proof verifies the way the distributor contract checks it", () => {
+    for (const [account, claim] of Object.entries(distribution.claims)) {
+      const leaf = merkleLeaf(claim.index, account, claim.amount);
+      assert.ok(openZeppelinVerify(claim.proof, distribution.merkleRoot, leaf));
+      assert.ok(verifyMerkleProof(distribution.merkleRoot, leaf, claim.proof));
+    }
+  });
+
+  test("a proof does not verify a different amount", () => {
+    const claim = distribution.claims[WALLET_1];
+    const forged = merkleLeaf(claim.index, WALLET_1, 301);
+    assert.equal(
+      verifyMerkleProof(distribution.merkleRoot, forged, claim.proof),
+      false
+    );
+  });
+
+  test("larger trees (odd layers) still verify against the reference", () => {
+    const balances = new Map<string, ethers.BigNumber>();
+    for (let i = 1; i <= 11; i++) {
+      const account = ethers.utils.getAddress(
+        ethers.utils.hexZeroPad(ethers.utils.hexlify(i * 7919), 20)
+      );
+      balances.set(account, ethers.utils.parseUnits(String(i), 18));
+    }
+    // Zero amounts are dropped
+    balances.set(ethers.constants.AddressZero, ethers.constants.Zero);
+
+    const big = buildMerkleDistribution(balances);
+    const entries = Object.entries(big.claims);
+    assert.equal(entries.length, 11);
+    assert.equal(
+      big.merkleRoot,
+      referenceRoot(
+        entries.map(([account, c]) => merkleLeaf(c.index, account, c.amount))
+      )
+    );
+    for (const [account, claim] of entries) {
+      const leaf = merkleLeaf(claim.index, account, claim.amount);
+      assert.ok(openZeppelinVerify(claim.proof, big.merkleRoot, leaf));
+    }
+  });
+
+  test("an empty distribution has the zero root", () => {
+    const empty = buildMerkleDistribution(new Map());
+    assert.equal(empty.merkleRoot, ethers.constants.HashZero);
+    assert.deepEqual(empty.claims, {});
+  });
+});
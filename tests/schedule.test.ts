@@ -0,0 +1,112 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CLOSED_SCHEDULE,
+  formatCountdown,
+  parseProgramSchedule,
+  programStatus,
+  type ProgramSchedule,
+} from "../lib/schedule";
+
+const SCHEDULE: ProgramSchedule = {
+  startsAt: 1000,
+  buysCloseAt: 2000,
+  claimsOpenAt: 1500,
+  claimsCloseAt: 3000,
+};
+
+describe("parseProgramSchedule", () => {
+  test("accepts unix seconds, ISO dates and null", () => {
+    assert.deepEqual(
+      parseProgramSchedule({
+        startsAt: "2026-01-01T00:00:00Z",
+        buysCloseAt: 1767312000,
+        claimsOpenAt: null,
+      }),
+      {
+        startsAt: 1767225600,
+        buysCloseAt: 1767312000,
+        claimsOpenAt: null,
+        claimsCloseAt: null,
+      }
+    );
+  });
+
+  test("rejects bad values and out-of-order bounds", () => {
+    assert.throws(() => parseProgramSchedule([]), /must be an object/);
+    assert.throws(
+      () => parseProgramSchedule({ startsAt: -1 }),
+      /Invalid startsAt/
+    );
+    assert.throws(
+      () => parseProgramSchedule({ startsAt: 2, buysCloseAt: 1 }),
+      /buysCloseAt is before startsAt/
+    );
+    assert.throws(
+      () => parseProgramSchedule({ buysCloseAt: 2, claimsCloseAt: 1 }),
+      /claimsCloseAt is before buysCloseAt/
+    );
+    assert.throws(
+      () => parseProgramSchedule({ claimsOpenAt: 2, claimsCloseAt: 1 }),
+      /claimsCloseAt is before claimsOpenAt/
+    );
+  });
+});
+
+describe("programStatus", () => {
+  const at = (now: number) => {
+    const { phase, canBuy, canClaim, next } = programStatus(SCHEDULE, now);
+    return [phase, canBuy, canClaim, next?.label ?? null];
+  };
+
+  test("each boundary belongs to the phase it opens", () => {
+    assert.deepEqual(at(999), ["upcoming", false, false, "Opens"]);
+    assert.deepEqual(at(1000), ["active", true, false, "Claims open"]);
+    assert.deepEqual(at(1499), ["active", true, false, "Claims open"]);
+    assert.deepEqual(at(1500), ["active", true, true, "Buys close"]);
+    assert.deepEqual(at(1999), ["active", true, true, "Buys close"]);
+    assert.deepEqual(at(2000), ["claimsOnly", false, true, "Claims close"]);
+    assert.deepEqual(at(2999), ["claimsOnly", false, true, "Claims close"]);
+    assert.deepEqual(at(3000), ["closed", false, false, null]);
+  });
+
+  test("claims opening after buys close leaves a gap with nothing open", () => {
+    const schedule = { ...SCHEDULE, claimsOpenAt: 2500 };
+    const status = programStatus(schedule, 2200);
+    assert.equal(status.phase, "claimsOnly");
+    assert.equal(status.canClaim, false);
+    assert.deepEqual(status.next, { at: 2500, label: "Claims open" });
+  });
+
+  test("open-ended schedules never close", () => {
+    const open: ProgramSchedule = {
+      startsAt: null,
+      buysCloseAt: null,
+      claimsOpenAt: null,
+      claimsCloseAt: null,
+    };
+    assert.deepEqual(programStatus(open, 0), {
+      phase: "active",
+      canBuy: true,
+      canClaim: true,
+      next: null,
+    });
+  });
+
+  test("no published schedule means closed", () => {
+    assert.equal(programStatus(CLOSED_SCHEDULE, 0).phase, "closed");
+  });
+});
+
+describe("formatCountdown", () => {
+  test("drops the largest empty units", () => {
+    assert.equal(formatCountdown(61), "01m 01s");
+    assert.equal(formatCountdown(3600 + 62), "01h 01m 02s");
+    assert.equal(formatCountdown(2 * 86_400 + 4 * 3600 + 13 * 60 + 9), "2d 04h 13m");
+  });
+
+  test("clamps negatives and fractions", () => {
+    assert.equal(formatCountdown(-5), "00m 00s");
+    assert.equal(formatCountdown(59.9), "00m 59s");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { diffSnapshots } from "../lib/snapshotDiff";
+import type { WalletTotals } from "../lib/exportFormats";
+
+const A = "0x1000000000000000000000000000000000000001";
+const B = "0x2000000000000000000000000000000000000002";
+const C = "0x3000000000000000000000000000000000000003";
+const D = "0x4000000000000000000000000000000000000004";
+
+function row(wallet: string, totalBuys: number, tokensRaw = "0"): WalletTotals {
+  return {
+    wallet,
+    totalBuys,
+    totalClaimTxs: 0,
+    totalBuysClaimed: 0,
+    totalTokensClaimedRaw: tokensRaw,
+    totalTokensClaimed: "",
+  };
+}
+
+describe("diffSnapshots", () => {
+  test("reports new, changed and dropped wallets, skipping unchanged ones", () => {
+    const diff = diffSnapshots(
+      [row(A, 9), row(B, 3), row(C, 1)],
+      [row(A, 9), row(B, 7, "2000000000000000000"), row(D, 2)]
+    );
+
+    assert.deepEqual(
+      diff.wallets.map((w) => [w.wallet, w.status, w.rankBefore, w.rankAfter]),
+      [
+        [B, "changed", 2, 2],
+        [D, "new", null, 3],
+        [C, "dropped", 3, null],
+      ]
+    );
+
+    const b = diff.wallets[0];
+    assert.equal(b.rankChange, 0);
+    assert.equal(b.buysDelta, 4);
+    assert.equal(b.tokensClaimedDelta, "2.0");
+    assert.equal(diff.wallets.some((w) => w.wallet === A), false);
+  });
+
+  test("a rank change alone is a change", () => {
+    const diff = diffSnapshots(
+      [row(A, 5), row(B, 3)],
+      [row(A, 5), row(B, 6)]
+    );
+    assert.deepEqual(
+      diff.wallets.map((w) => [w.wallet, w.rankChange, w.buysDelta]),
+      [
+        [B, 1, 3],
+        [A, -1, 0],
+      ]
+    );
+  });
+
+  test("equal buys rank by address, case-insensitively", () => {
+    const lower = B.toLowerCase();
+    const diff = diffSnapshots([], [row(lower, 2), row(A, 2)]);
+    assert.deepEqual(
+      diff.wallets.map((w) => [w.wallet, w.rankAfter]),
+      [
+        [A, 1],
+        [B, 2],
+      ]
+    );
+  });
+
+  test("totals cover both snapshots", () => {
+    const diff = diffSnapshots(
+      [row(A, 5, "1000000000000000000"), row(C, 1)],
+      [row(A, 6, "3000000000000000000"), row(D, 2)]
+    );
+    assert.deepEqual(diff.totals, {
+      walletsBefore: 2,
+      walletsAfter: 2,
+      newWallets: 1,
+      droppedWallets: 1,
+      buysBefore: 6,
+      buysAfter: 8,
+      buysDelta: 2,
+      tokensClaimedBeforeRaw: "1000000000000000000",
+      tokensClaimedAfterRaw: "3000000000000000000",
+      tokensClaimedDeltaRaw: "2000000000000000000",
+      tokensClaimedDelta: "2.0",
+    });
+  });
+});
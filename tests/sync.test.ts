@@ -0,0 +1,63 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { rollbackIndexState } from "../lib/indexer/sync";
+import type { IndexState } from "../lib/indexer/types";
+
+const WALLET = "0x1000000000000000000000000000000000000001";
+
+const at = (blockNumber: number) => ({
+  blockNumber,
+  txHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+  logIndex: 0,
+});
+
+const STATE: IndexState = {
+  version: 1,
+  contract: WALLET,
+  fromBlock: 100,
+  lastIndexedBlock: 130,
+  checkpoints: [110, 120, 130].map((blockNumber) => ({
+    blockNumber,
+    blockHash: `0x${"ab".repeat(31)}${blockNumber}`,
+  })),
+  buys: [105, 120, 121, 130].map((n, i) => ({
+    ...at(n),
+    wallet: WALLET,
+    userTotalBuys: i + 1,
+    buysInCurrentWindow: 1,
+  })),
+  claims: [119, 125].map((n) => ({
+    ...at(n),
+    wallet: WALLET,
+    buysClaimed: 1,
+    tokensPaid: "1",
+  })),
+};
+
+describe("rollbackIndexState", () => {
+  test("drops everything after the matching checkpoint, keeping it", () => {
+    const rolled = rollbackIndexState(STATE, 120);
+
+    assert.equal(rolled.lastIndexedBlock, 120);
+    assert.deepEqual(
+      rolled.checkpoints.map((c) => c.blockNumber),
+      [110, 120]
+    );
+    assert.deepEqual(
+      rolled.buys.map((e) => e.blockNumber),
+      [105, 120]
+    );
+    assert.deepEqual(
+      rolled.claims.map((e) => e.blockNumber),
+      [119]
+    );
+    assert.equal(rolled.fromBlock, STATE.fromBlock);
+  });
+
+  test("leaves the input state untouched", () => {
+    rollbackIndexState(STATE, 110);
+    assert.equal(STATE.lastIndexedBlock, 130);
+    assert.equal(STATE.buys.length, 4);
+    assert.equal(STATE.checkpoints.length, 3);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import type { WalletTotals } from "../lib/exportFormats";
+import { allocateRewards, parseRewardsConfig } from "../lib/rewards/tiers";
+
+const wallet = (n: number) =>
+  ethers.utils.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+
+const row = (n: number, totalBuys: number): WalletTotals => ({
+  wallet: wallet(n),
+  totalBuys,
+  totalClaimTxs: 0,
+  totalBuysClaimed: 0,
+  totalTokensClaimedRaw: "0",
+  totalTokensClaimed: "0.0",
+});
+
+const amounts = (result: ReturnType<typeof allocateRewards>) =>
+  result.allocations.map((a) => [a.wallet, a.rank, a.amount.toString()]);
+
+describe("parseRewardsConfig", () => {
+  test("fills defaults", () => {
+    const config = parseRewardsConfig({
+      tiers: [{ type: "proRata", pool: "10" }],
+    });
+    assert.equal(config.decimals, 18);
+    assert.equal(config.minBuys, 1);
+    assert.deepEqual(config.exclude, []);
+  });
+
+  test("names the bad field", () => {
+    const bad: [unknown, RegExp][] = [
+      [null, /must be an object/],
+      [{ tiers: [] }, /non-empty list/],
+      [{ decimals: 40, tiers: [] }, /decimals/],
+      [{ minBuys: -1, tiers: [] }, /minBuys/],
+      [{ exclude: ["0x12"], tiers: [] }, /exclude/],
+      [{ tiers: [{ type: "flat" }] }, /tiers\[0\]: type/],
+      [
+        { tiers: [{ type: "rank", fromRank: 5, toRank: 2, amount: "1" }] },
+        /fromRank must not exceed toRank/,
+      ],
+      [
+        { tiers: [{ type: "rank", fromRank: 0, toRank: 2, amount: "1" }] },
+        /integers >= 1/,
+      ],
+      [
+        { tiers: [{ type: "proRata", pool: 100 }] },
+        /tiers\[0\]\.pool must be a decimal string/,
+      ],
+      [
+        { decimals: 2, tiers: [{ type: "proRata", pool: "1.234" }] },
+        /more than 2 decimals/,
+      ],
+    ];
+    for (const [json, message] of bad) {
+      assert.throws(() => parseRewardsConfig(json), message);
+    }
+  });
+});
+
+describe("allocateRewards", () => {
+  test("rank tiers pay fixed amounts; ties rank by address", () => {
+    const config = parseRewardsConfig({
+      decimals: 0,
+      tiers: [
+        { type: "rank", fromRank: 1, toRank: 1, amount: "100" },
+        { type: "rank", fromRank: 2, toRank: 5, amount: "10" },
+      ],
+    });
+    const result = allocateRewards([row(3, 5), row(2, 9), row(1, 5)], config);
+
+    assert.deepEqual(amounts(result), [
+      [wallet(2), 1, "100"],
+      [wallet(1), 2, "10"],
+      [wallet(3), 3, "10"],
+    ]);
+    assert.equal(result.total.toString(), "120");
+    assert.equal(result.undistributed.toString(), "0");
+  });
+
+  test("minBuys and exclude remove wallets before ranking", () => {
+    const config = parseRewardsConfig({
+      decimals: 0,
+      minBuys: 2,
+      exclude: [wallet(2).toLowerCase()],
+      tiers: [{ type: "rank", fromRank: 1, toRank: 1, amount: "1" }],
+    });
+    const result = allocateRewards([row(1, 1), row(2, 9), row(3, 2)], config);
+    assert.deepEqual(amounts(result), [[wallet(3), 1, "1"]]);
+  });
+
+  test("pro-rata shares round down and report the dust", () => {
+    const config = parseRewardsConfig({
+      decimals: 0,
+      tiers: [
+        { type: "rank", fromRank: 1, toRank: 1, amount: "5" },
+        { type: "proRata", pool: "100", minBuys: 2 },
+      ],
+    });
+    const result = allocateRewards([row(1, 1), row(2, 2), row(3, 4)], config);
+
+    // 100 * 4/6 = 66, 100 * 2/6 = 33; wallet 1 is below the tier's minBuys
+    assert.deepEqual(amounts(result), [
+      [wallet(3), 1, "71"],
+      [wallet(2), 2, "33"],
+    ]);
+    assert.deepEqual(
+      Object.fromEntries(
+        Object.entries(result.allocations[0].byTier).map(([t, v]) => [
+          t,
+          v.toString(),
+        ])
+      ),
+      { 0: "5", 1: "66" }
+    );
+    assert.equal(result.undistributed.toString(), "1");
+    assert.equal(result.total.toString(), "104");
+  });
+
+  test("a pool nobody qualifies for is left undistributed", () => {
+    const config = parseRewardsConfig({
+      tiers: [{ type: "proRata", pool: "1.5", minBuys: 10 }],
+    });
+    const result = allocateRewards([row(1, 3)], config);
+    assert.deepEqual(result.allocations, []);
+    assert.equal(
+      result.undistributed.toString(),
+      ethers.utils.parseUnits("1.5", 18).toString()
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { checkTransaction, type TrackedTx } from "../lib/txTracker";
+
+const FROM = "0x17ec8597ff92C3F44523bDc65BF0f1bE632917ff";
+const CONTRACT = "0xcA2538De53E21128B298a80d92f67b33605FEECC";
+const HEAD = 110;
+
+const TX: TrackedTx = {
+  hash: `0x${"aa".repeat(32)}`,
+  kind: "claim",
+  from: FROM,
+  nonce: 5,
+  to: CONTRACT,
+  data: "0xd1058e59",
+  value: "0",
+  startBlock: 100,
+  submittedAt: Date.now(),
+  status: "pending",
+  replacedBy: null,
+  blockNumber: null,
+};
+
+type MinedTx = {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value: ethers.BigNumber;
+  blockNumber: number;
+};
+
+const mined = (overrides: Partial<MinedTx>): MinedTx => ({
+  hash: `0x${"bb".repeat(32)}`,
+  from: FROM,
+  nonce: TX.nonce,
+  to: CONTRACT,
+  data: TX.data,
+  value: ethers.constants.Zero,
+  blockNumber: 104,
+  ...overrides,
+});
+
+// A node without archive state: getTransactionCount only works at the head.
+// The nonce was used by `replacement`, mined at replacement.blockNumber.
+function prunedNode(replacement: MinedTx | null, failBlocks = false) {
+  return {
+    getBlockNumber: async () => HEAD,
+    getTransactionReceipt: async (hash: string) =>
+      replacement && hash === replacement.hash
+        ? { status: 1, blockNumber: replacement.blockNumber }
+        : null,
+    getTransaction: async () => null,
+    getTransactionCount: async (_from: string, blockTag: number) => {
+      if (blockTag !== HEAD) throw new Error("missing trie node");
+      return TX.nonce + 1;
+    },
+    getBlockWithTransactions: async (n: number) => {
+      if (failBlocks) throw new Error("timeout");
+      return {
+        number: n,
+        transactions:
+          replacement && n === replacement.blockNumber ? [replacement] : [],
+      };
+    },
+  } as unknown as ethers.providers.Provider;
+}
+
+describe("checkTransaction without historical state", () => {
+  test("finds a speed-up by scanning blocks and reports it confirmed", async () => {
+    const speedUp = mined({});
+    const settled = await checkTransaction(prunedNode(speedUp), TX);
+    assert.deepEqual(
+      [settled?.status, settled?.replacedBy, settled?.blockNumber],
+      ["confirmed", speedUp.hash, 104]
+    );
+  });
+
+  test("recognises a cancel the same way", async () => {
+    const cancel = mined({ to: FROM, data: "0x", blockNumber: 101 });
+    const settled = await checkTransaction(prunedNode(cancel), TX);
+    assert.equal(settled?.status, "cancelled");
+  });
+
+  test("stays pending when nothing for the nonce can be found", async () => {
+    // Mined past the scanned blocks
+    const late = mined({ blockNumber: HEAD + 1 });
+    assert.equal(await checkTransaction(prunedNode(late), TX), null);
+  });
+
+  test("a failing block lookup is retried, not settled", async () => {
+    await assert.rejects(
+      checkTransaction(prunedNode(mined({}), true), TX),
+      /timeout/
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { ethers } from "ethers";
+import type { IndexState } from "../lib/indexer/types";
+
+// windows -> timestamps persists a block-timestamp cache under
+// INDEXER_DATA_DIR, which config reads at load: point it at a temp dir
+// before the first import
+const dataDir = mkdtempSync(path.join(tmpdir(), "tbag-windows-"));
+let windows: typeof import("../lib/windows");
+
+before(async () => {
+  process.env.INDEXER_DATA_DIR = dataDir;
+  windows = await import("../lib/windows");
+});
+
+after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+// Monday 2026-01-05 00:00 UTC; one block per hour from there
+const MONDAY = Date.UTC(2026, 0, 5) / 1000;
+const blockTime = (n: number) => MONDAY + n * 3600;
+
+const provider = {
+  getBlock: async (n: number) => ({ number: n, timestamp: blockTime(n) }),
+} as unknown as ethers.providers.Provider;
+
+const STATE: IndexState = {
+  version: 1,
+  contract: "0x1000000000000000000000000000000000000001",
+  fromBlock: 0,
+  lastIndexedBlock: 200,
+  checkpoints: [],
+  buys: [],
+  claims: [],
+};
+
+describe("parseWindowSpec", () => {
+  const parse = (query: string) =>
+    windows.parseWindowSpec(new URLSearchParams(query));
+
+  test("defaults to the whole index", () => {
+    assert.deepEqual(parse(""), { kind: "named", name: "all" });
+    assert.deepEqual(parse("window=week"), { kind: "named", name: "week" });
+  });
+
+  test("reads time and block ranges", () => {
+    assert.deepEqual(parse("from=2026-01-05T00:00:00Z&to=1767657600"), {
+      kind: "range",
+      by: "time",
+      from: MONDAY,
+      to: 1767657600,
+    });
+    assert.deepEqual(parse("by=block&to=50"), {
+      kind: "range",
+      by: "block",
+      from: null,
+      to: 50,
+    });
+  });
+
+  test("rejects mixed, unknown and reversed input", () => {
+    assert.ok("error" in parse("window=today&from=1"));
+    assert.ok("error" in parse("window=month"));
+    assert.ok("error" in parse("by=block&from=2026-01-05"));
+    assert.ok("error" in parse("from=10&to=9"));
+    assert.ok(!("error" in parse("from=10&to=10")));
+  });
+});
+
+describe("namedWindowStart", () => {
+  test("today and week start at 00:00 UTC / Monday 00:00 UTC", () => {
+    const wednesdayNoon = new Date(Date.UTC(2026, 0, 7, 12));
+    assert.equal(windows.namedWindowStart("all", wednesdayNoon), null);
+    assert.equal(
+      windows.namedWindowStart("today", wednesdayNoon),
+      MONDAY + 2 * 86_400
+    );
+    assert.equal(windows.namedWindowStart("week", wednesdayNoon), MONDAY);
+  });
+
+  test("Sunday still belongs to the week that started on Monday", () => {
+    const sunday = new Date(Date.UTC(2026, 0, 11, 23, 59));
+    assert.equal(windows.namedWindowStart("week", sunday), MONDAY);
+    const nextMonday = new Date(Date.UTC(2026, 0, 12));
+    assert.equal(
+      windows.namedWindowStart("week", nextMonday),
+      MONDAY + 7 * 86_400
+    );
+  });
+});
+
+describe("resolveWindow", () => {
+  const resolve = (spec: Parameters<typeof windows.resolveWindow>[2]) =>
+    windows.resolveWindow(provider, STATE, spec, new Date(blockTime(60) * 1000));
+
+  test("named windows start at the first block of the window", async () => {
+    const today = await resolve({ kind: "named", name: "today" });
+    assert.equal(today.fromBlock, 48);
+    assert.equal(today.toBlock, 200);
+
+    const all = await resolve({ kind: "named", name: "all" });
+    assert.equal(all.fromBlock, 0);
+  });
+
+  test("time bounds are inclusive on both ends", async () => {
+    const exact = await resolve({
+      kind: "range",
+      by: "time",
+      from: blockTime(10),
+      to: blockTime(20),
+    });
+    assert.deepEqual([exact.fromBlock, exact.toBlock], [10, 20]);
+
+    // Between blocks: from rounds up, to rounds down
+    const between = await resolve({
+      kind: "range",
+      by: "time",
+      from: blockTime(10) + 1,
+      to: blockTime(20) + 1,
+    });
+    assert.deepEqual([between.fromBlock, between.toBlock], [11, 20]);
+  });
+
+  test("ranges past the index are clamped to it", async () => {
+    const late = await resolve({
+      kind: "range",
+      by: "time",
+      from: blockTime(150),
+      to: blockTime(500),
+    });
+    assert.deepEqual([late.fromBlock, late.toBlock], [150, 200]);
+
+    const blocks = await resolve({
+      kind: "range",
+      by: "block",
+      from: null,
+      to: 900,
+    });
+    assert.deepEqual([blocks.fromBlock, blocks.toBlock], [0, 200]);
+  });
+});
+
+describe("sliceIndexState", () => {
+  test("keeps events on both edges of the range", () => {
+    const events = [9, 10, 15, 20, 21].map((blockNumber) => ({ blockNumber }));
+    const sliced = windows.sliceIndexState(
+      {
+        buys: events as IndexState["buys"],
+        claims: events as IndexState["claims"],
+      },
+      { fromBlock: 10, toBlock: 20 }
+    );
+    assert.deepEqual(
+      sliced.buys.map((e) => e.blockNumber),
+      [10, 15, 20]
+    );
+    assert.equal(sliced.claims.length, 3);
+  });
+});